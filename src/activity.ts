@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { getKnownIdentity } from './identity';
+import { getCurrentMember } from './team';
+import { ActivityAction, CommentActivity, CommentData } from './types';
+
+/**
+ * The activity log kept on each thread. Entries are only ever appended, so a
+ * thread's history can be audited after it is resolved or deleted.
+ */
+
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  created: 'Created',
+  imported: 'Imported',
+  published: 'Published',
+  replied: 'Replied',
+  edited: 'Edited',
+  replyDeleted: 'Deleted a reply',
+  resolved: 'Resolved',
+  reopened: 'Reopened',
+  updated: 'Changed details',
+  reanchored: 'Re-anchored',
+  orphaned: 'Orphaned',
+  deleted: 'Deleted',
+  restored: 'Restored',
+  applied: 'Applied the suggestion',
+  rejected: 'Rejected the suggestion'
+};
+
+/**
+ * Who to credit with an action, without prompting: the default author, the
+ * current roster member, the identity from Git or a signed-in account, or the
+ * system user name.
+ */
+export function getActivityAuthor(): string {
+  const defaultAuthor = vscode.workspace.getConfiguration('commentTracker').get<string>('defaultAuthor')?.trim();
+  return defaultAuthor || getCurrentMember()?.name || getKnownIdentity()?.name || process.env.USER || process.env.USERNAME || 'Unknown';
+}
+
+export function recordActivity(commentData: CommentData, action: ActivityAction, author = getActivityAuthor(), detail?: string) {
+  const entry: CommentActivity = { action, author, timestamp: new Date().toISOString() };
+  if (detail) {
+    entry.detail = detail;
+  }
+  commentData.activity = [...(commentData.activity ?? []), entry];
+}
+
+export function formatActivity(entry: CommentActivity): string {
+  return `${ACTION_LABELS[entry.action] ?? entry.action}${entry.detail ? ` (${entry.detail})` : ''} by ${entry.author}, ` +
+    new Date(entry.timestamp).toLocaleString();
+}
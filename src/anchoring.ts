@@ -0,0 +1,228 @@
+/**
+ * Content-based comment anchoring.
+ *
+ * A comment remembers the text it was written against plus a little context on
+ * either side. Edits made in the editor are tracked precisely by transforming
+ * the stored range, and when that is not possible (the file was replaced on
+ * disk, or the commented region was rewritten wholesale) the anchor is searched
+ * for again in the new content.
+ */
+
+export interface CommentAnchor {
+  text: string;
+  before: string;
+  after: string;
+}
+
+export interface AnchorPosition {
+  line: number;
+  character: number;
+}
+
+export interface AnchorRange {
+  start: AnchorPosition;
+  end: AnchorPosition;
+}
+
+export interface AnchorChange {
+  range: AnchorRange;
+  text: string;
+}
+
+const CONTEXT_LENGTH = 40;
+const MIN_CONTEXT_MATCH = 8;
+
+export function createAnchor(content: string, start: number, end: number): CommentAnchor {
+  return {
+    text: content.slice(start, end),
+    before: content.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    after: content.slice(end, end + CONTEXT_LENGTH)
+  };
+}
+
+/**
+ * Locate an anchor in `content`, returning character offsets. Exact matches of
+ * the quoted text are ranked by how much surrounding context still matches and
+ * then by distance from `hint`. A match must keep some of its context, so
+ * that rewriting the commented text does not move the comment onto the same
+ * words elsewhere in the file. If the quoted text itself is gone but its
+ * context survives, the span between the two context strings is returned.
+ */
+export function findAnchor(
+  content: string,
+  anchor: CommentAnchor,
+  hint: number
+): { start: number; end: number } | undefined {
+  if (anchor.text.trim() !== '') {
+    let best: { start: number; end: number } | undefined;
+    // Only text with no context to go on, such as a whole file, may match on the text alone
+    let bestScore = Math.min(MIN_CONTEXT_MATCH, anchor.before.length + anchor.after.length) - 1;
+    let bestDistance = Infinity;
+
+    let index = content.indexOf(anchor.text);
+    while (index !== -1) {
+      const end = index + anchor.text.length;
+      const score =
+        commonSuffixLength(content.slice(Math.max(0, index - anchor.before.length), index), anchor.before) +
+        commonPrefixLength(content.slice(end, end + anchor.after.length), anchor.after);
+      const distance = Math.abs(index - hint);
+
+      if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+        best = { start: index, end };
+        bestScore = score;
+        bestDistance = distance;
+      }
+      index = content.indexOf(anchor.text, index + 1);
+    }
+
+    if (best) {
+      return best;
+    }
+  }
+
+  return findBetweenContext(content, anchor, hint);
+}
+
+/**
+ * Find `text` in `content` allowing any run of whitespace to match any other,
+ * which is what survives a document being converted between formats (line
+ * wrapping, non-breaking spaces, tabs). The match closest to `hint` wins.
+ */
+export function findTextLoosely(content: string, text: string, hint: number): { start: number; end: number } | undefined {
+  const words = text.trim().split(/\s+/).filter(word => word !== '');
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const pattern = new RegExp(words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'g');
+  let best: { start: number; end: number } | undefined;
+  let bestDistance = Infinity;
+
+  for (const match of content.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const distance = Math.abs(start - hint);
+    if (distance < bestDistance) {
+      best = { start, end: start + match[0].length };
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function findBetweenContext(
+  content: string,
+  anchor: CommentAnchor,
+  hint: number
+): { start: number; end: number } | undefined {
+  if (anchor.before.length < MIN_CONTEXT_MATCH || anchor.after.length < MIN_CONTEXT_MATCH) {
+    return undefined;
+  }
+
+  const maxSpan = anchor.text.length * 2 + CONTEXT_LENGTH;
+  let best: { start: number; end: number } | undefined;
+  let bestDistance = Infinity;
+
+  let index = content.indexOf(anchor.before);
+  while (index !== -1) {
+    const start = index + anchor.before.length;
+    const afterIndex = content.indexOf(anchor.after, start);
+    if (afterIndex !== -1 && afterIndex - start <= maxSpan && afterIndex > start) {
+      const distance = Math.abs(start - hint);
+      if (distance < bestDistance) {
+        best = { start, end: afterIndex };
+        bestDistance = distance;
+      }
+    }
+    index = content.indexOf(anchor.before, index + 1);
+  }
+
+  return best;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a[a.length - 1 - i] === b[b.length - 1 - i]) {
+    i++;
+  }
+  return i;
+}
+
+function comparePositions(a: AnchorPosition, b: AnchorPosition): number {
+  return a.line === b.line ? a.character - b.character : a.line - b.line;
+}
+
+function endOfInsertedText(change: AnchorChange): AnchorPosition {
+  const lines = change.text.split('\n');
+  if (lines.length === 1) {
+    return {
+      line: change.range.start.line,
+      character: change.range.start.character + change.text.length
+    };
+  }
+  return {
+    line: change.range.start.line + lines.length - 1,
+    character: lines[lines.length - 1].length
+  };
+}
+
+function shiftPosition(position: AnchorPosition, change: AnchorChange, newEnd: AnchorPosition): AnchorPosition {
+  const { end } = change.range;
+  if (position.line === end.line) {
+    return { line: newEnd.line, character: newEnd.character + (position.character - end.character) };
+  }
+  return { line: position.line + (newEnd.line - end.line), character: position.character };
+}
+
+/**
+ * Apply a single text change to a comment range. Text inserted exactly at
+ * either boundary is kept outside the comment, and text deleted from inside
+ * the comment shrinks it. `contained` is set when the whole comment sat inside
+ * the replaced region, in which case the result cannot be trusted and the
+ * anchor should be searched for instead.
+ */
+export function transformRange(range: AnchorRange, change: AnchorChange): { range: AnchorRange; contained: boolean } {
+  const newEnd = endOfInsertedText(change);
+  const changeStart = change.range.start;
+  const changeEnd = change.range.end;
+  const isInsertion = comparePositions(changeStart, changeEnd) === 0;
+
+  const contained =
+    !isInsertion &&
+    comparePositions(changeStart, range.start) <= 0 &&
+    comparePositions(range.end, changeEnd) <= 0 &&
+    comparePositions(range.start, range.end) < 0;
+
+  let start: AnchorPosition;
+  if (comparePositions(range.start, changeStart) < 0) {
+    start = range.start;
+  } else if (comparePositions(range.start, changeEnd) >= 0) {
+    start = shiftPosition(range.start, change, newEnd);
+  } else {
+    start = newEnd;
+  }
+
+  let end: AnchorPosition;
+  if (comparePositions(range.end, changeStart) <= 0) {
+    end = range.end;
+  } else if (comparePositions(range.end, changeEnd) >= 0) {
+    end = shiftPosition(range.end, change, newEnd);
+  } else {
+    end = changeStart;
+  }
+
+  if (comparePositions(end, start) < 0) {
+    end = start;
+  }
+
+  return { range: { start, end }, contained };
+}
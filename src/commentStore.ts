@@ -0,0 +1,564 @@
+import * as vscode from 'vscode';
+import { isInBranchScope } from './git';
+import { isEqual, mergeCommentStores } from './merge';
+import { CommentStorage, createCommentStorage, LoadResult, StorageFormat } from './storage';
+import { CommentData, CommentStore } from './types';
+
+/**
+ * Comments for one workspace folder. Each folder keeps its own comments file
+ * (or shards) and file paths are relative to that folder.
+ */
+export interface FolderCommentStore {
+  folder: vscode.WorkspaceFolder;
+  store: CommentStore;
+  // The store as last read from or written to disk, used as the base for three-way merges
+  syncedStore: CommentStore;
+  syncedFingerprint: string | undefined;
+  watcher?: vscode.FileSystemWatcher;
+  // Backups made for the problems last reported, so the same damaged files are only reported once
+  reportedBackups?: string;
+}
+
+const folderStores = new Map<string, FolderCommentStore>();
+
+// Workspace folders already checked for comments saved under the old folder-name prefix
+const RELOCATED_KEY = 'commentTracker.relocatedFolders';
+let problemsChannel: vscode.OutputChannel | undefined;
+
+// Reads and writes of the stored comments run one at a time, in order
+let storageQueue: Promise<void> = Promise.resolve();
+
+// Changes made within this long of each other are written together
+const SAVE_DELAY = 100;
+let saveTimer: NodeJS.Timeout | undefined;
+let saveDue = 0;
+let pendingSave: { promise: Promise<void>; resolve: () => void } | undefined;
+
+const onDidReloadCommentsEmitter = new vscode.EventEmitter<FolderCommentStore>();
+/** Fired when a folder's comments were replaced or merged from disk */
+export const onDidReloadComments = onDidReloadCommentsEmitter.event;
+
+const onDidSaveCommentsEmitter = new vscode.EventEmitter<void>();
+export const onDidSaveComments = onDidSaveCommentsEmitter.event;
+
+export function getFolderStores(): FolderCommentStore[] {
+  return [...folderStores.values()];
+}
+
+function isInScope(folderStore: FolderCommentStore, commentData: CommentData): boolean {
+  return isInBranchScope(commentData, vscode.Uri.joinPath(folderStore.folder.uri, commentData.filePath));
+}
+
+/**
+ * Every comment in the workspace, leaving out deleted threads in the Trash and
+ * threads scoped to a branch other than the one checked out.
+ */
+export function getAllComments(): CommentData[] {
+  return getFolderStores().flatMap(getFolderComments);
+}
+
+/** The comments in one workspace folder, left out on the same terms as `getAllComments` */
+export function getFolderComments(folderStore: FolderCommentStore): CommentData[] {
+  return folderStore.store.comments.filter(c => !c.deleted && isInScope(folderStore, c));
+}
+
+export function getDeletedComments(): CommentData[] {
+  return getFolderStores().flatMap(folderStore => folderStore.store.comments.filter(c => c.deleted && isInScope(folderStore, c)));
+}
+
+/** Comments scoped to a branch, whichever branch is checked out */
+export function getBranchScopedComments(): CommentData[] {
+  return getFolderStores().flatMap(folderStore => folderStore.store.comments.filter(c => c.scope));
+}
+
+/** Look a comment up by id, including deleted ones */
+export function findComment(id: string): CommentData | undefined {
+  for (const folderStore of folderStores.values()) {
+    const comment = folderStore.store.comments.find(c => c.id === id);
+    if (comment) {
+      return comment;
+    }
+  }
+  return undefined;
+}
+
+export function getFolderStoreForUri(uri: vscode.Uri): FolderCommentStore | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  return folder ? folderStores.get(folder.uri.toString()) : undefined;
+}
+
+export function getFolderStoreForComment(commentData: CommentData): FolderCommentStore | undefined {
+  return getFolderStores().find(folderStore => folderStore.store.comments.includes(commentData));
+}
+
+/**
+ * Path of a file relative to its own workspace folder, which is how
+ * `CommentData.filePath` is stored.
+ */
+export function getRelativePath(uri: vscode.Uri): string {
+  return vscode.workspace.asRelativePath(uri, false);
+}
+
+export function getCommentUri(commentData: CommentData): vscode.Uri | undefined {
+  const folderStore = getFolderStoreForComment(commentData);
+  return folderStore ? vscode.Uri.joinPath(folderStore.folder.uri, commentData.filePath) : undefined;
+}
+
+/**
+ * File path for display, prefixed with the folder name when the workspace has
+ * more than one folder.
+ */
+export function getDisplayPath(commentData: CommentData): string {
+  const folderStore = getFolderStoreForComment(commentData);
+  if (!folderStore || folderStores.size < 2) {
+    return commentData.filePath;
+  }
+  return `${folderStore.folder.name}/${commentData.filePath}`;
+}
+
+/**
+ * Comments attached to a file. Archived comments are left out, since they
+ * belong to a file that was deleted even if another one now has its name, and
+ * so are deleted ones and ones scoped to another branch.
+ */
+export function getCommentsForUri(uri: vscode.Uri): CommentData[] {
+  const folderStore = getFolderStoreForUri(uri);
+  if (!folderStore) {
+    return [];
+  }
+  const filePath = getRelativePath(uri);
+  return folderStore.store.comments.filter(c => c.filePath === filePath && !c.archived && !c.deleted && isInBranchScope(c, uri));
+}
+
+export function removeComment(id: string) {
+  for (const folderStore of folderStores.values()) {
+    folderStore.store.comments = folderStore.store.comments.filter(c => c.id !== id);
+  }
+}
+
+/**
+ * Replace the inline comments read from a document. Returns true if they
+ * differ from the ones held before.
+ */
+export function setInlineComments(uri: vscode.Uri, comments: CommentData[]): boolean {
+  const folderStore = getFolderStoreForUri(uri);
+  if (!folderStore) {
+    return false;
+  }
+
+  const filePath = getRelativePath(uri);
+  const isInlineForFile = (c: CommentData) => c.inline && c.filePath === filePath;
+  if (isEqual(folderStore.store.comments.filter(isInlineForFile), comments)) {
+    return false;
+  }
+
+  folderStore.store.comments = [...folderStore.store.comments.filter(c => !isInlineForFile(c)), ...comments];
+  return true;
+}
+
+/** The part of a store that is written to disk: everything but inline comments */
+function persistedPart(store: CommentStore): CommentStore {
+  return { comments: store.comments.filter(c => !c.inline) };
+}
+
+function inlinePart(store: CommentStore): CommentData[] {
+  return store.comments.filter(c => c.inline);
+}
+
+function isSameOrChildPath(filePath: string, parentPath: string): boolean {
+  return filePath === parentPath || filePath.startsWith(`${parentPath}/`);
+}
+
+/**
+ * Point comments at a file's new location after it (or a folder containing it)
+ * was renamed or moved, moving them between folder stores if needed. Comments
+ * on a file moved out of the workspace are archived. Returns true if any
+ * comment changed.
+ */
+export function renameCommentFiles(oldUri: vscode.Uri, newUri: vscode.Uri): boolean {
+  const source = getFolderStoreForUri(oldUri);
+  if (!source) {
+    return false;
+  }
+
+  const target = getFolderStoreForUri(newUri);
+  const oldPath = getRelativePath(oldUri);
+  const newPath = getRelativePath(newUri);
+  let changed = false;
+
+  for (const commentData of [...source.store.comments]) {
+    if (!isSameOrChildPath(commentData.filePath, oldPath)) {
+      continue;
+    }
+
+    changed = true;
+    if (!target) {
+      commentData.archived = true;
+      continue;
+    }
+
+    commentData.filePath = newPath + commentData.filePath.slice(oldPath.length);
+    if (target !== source) {
+      source.store.comments = source.store.comments.filter(c => c !== commentData);
+      target.store.comments.push(commentData);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Archive comments on a deleted file, or on every file under a deleted folder.
+ * Returns true if any comment changed.
+ */
+export function archiveCommentsForDeletedFile(uri: vscode.Uri): boolean {
+  const folderStore = getFolderStoreForUri(uri);
+  if (!folderStore) {
+    return false;
+  }
+
+  const deletedPath = getRelativePath(uri);
+  let changed = false;
+
+  // Inline comments went with the document
+  const remaining = folderStore.store.comments.filter(c => !(c.inline && isSameOrChildPath(c.filePath, deletedPath)));
+  if (remaining.length !== folderStore.store.comments.length) {
+    folderStore.store.comments = remaining;
+    changed = true;
+  }
+
+  for (const commentData of folderStore.store.comments) {
+    if (!commentData.archived && isSameOrChildPath(commentData.filePath, deletedPath)) {
+      commentData.archived = true;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Attach a comment to a different file, for example when restoring an archived
+ * comment whose file no longer exists. Returns false if the file is outside
+ * the workspace.
+ */
+export function moveCommentToFile(commentData: CommentData, uri: vscode.Uri): boolean {
+  const source = getFolderStoreForComment(commentData);
+  const target = getFolderStoreForUri(uri);
+  if (!source || !target) {
+    return false;
+  }
+
+  commentData.filePath = getRelativePath(uri);
+  if (target !== source) {
+    source.store.comments = source.store.comments.filter(c => c !== commentData);
+    target.store.comments.push(commentData);
+  }
+  return true;
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Before multi-root support, every comment was saved in the first folder's
+ * store with its folder's name as a path prefix, the first folder's own
+ * included. Move any such comments into the store they belong to, without
+ * the prefix. Each folder is only looked for once per workspace, and a
+ * comment is left where it is if more than one folder could be meant.
+ * Returns true if anything moved.
+ */
+export async function relocateMisplacedComments(memento: vscode.Memento): Promise<boolean> {
+  const relocated = memento.get<string[]>(RELOCATED_KEY) ?? [];
+  const folders = getFolderStores();
+  const pending = folders.filter(folderStore => !relocated.includes(folderStore.folder.uri.toString()));
+  if (pending.length === 0) {
+    return false;
+  }
+
+  // Many comments are on the same files, so each path is only looked up once
+  const exists = new Map<string, Promise<boolean>>();
+  const cachedFileExists = (uri: vscode.Uri) => {
+    const key = uri.toString();
+    if (!exists.has(key)) {
+      exists.set(key, fileExists(uri));
+    }
+    return exists.get(key)!;
+  };
+
+  let moved = false;
+  for (const source of folderStores.values()) {
+    for (const commentData of [...source.store.comments]) {
+      const [folderName, ...rest] = commentData.filePath.split('/');
+      if (rest.length === 0 || !pending.some(folderStore => folderStore.folder.name === folderName) ||
+        await cachedFileExists(vscode.Uri.joinPath(source.folder.uri, commentData.filePath))) {
+        continue;
+      }
+
+      const targets: FolderCommentStore[] = [];
+      for (const folderStore of folders.filter(folderStore => folderStore.folder.name === folderName)) {
+        if (await cachedFileExists(vscode.Uri.joinPath(folderStore.folder.uri, ...rest))) {
+          targets.push(folderStore);
+        }
+      }
+      if (targets.length !== 1) {
+        continue;
+      }
+
+      const [target] = targets;
+      if (target === source) {
+        commentData.filePath = rest.join('/');
+      } else {
+        source.store.comments = source.store.comments.filter(c => c !== commentData);
+        target.store.comments.push({ ...commentData, filePath: rest.join('/') });
+      }
+      moved = true;
+    }
+  }
+
+  await memento.update(RELOCATED_KEY, [...relocated, ...pending.map(folderStore => folderStore.folder.uri.toString())]);
+  return moved;
+}
+
+function getStorage(folder: vscode.WorkspaceFolder): CommentStorage {
+  const format = vscode.workspace.getConfiguration('commentTracker', folder.uri).get<StorageFormat>('storageFormat', 'single');
+  return createCommentStorage(folder.uri, format);
+}
+
+/**
+ * Run a read or write of the stored comments once those before it have
+ * finished. Failures are logged so that one cannot hold up the rest.
+ */
+function enqueue(task: () => Promise<void>): Promise<void> {
+  storageQueue = storageQueue.then(task).catch(error => console.error('Comment storage task failed:', error));
+  return storageQueue;
+}
+
+/**
+ * Read a folder's stored comments, reporting any problems with the files.
+ */
+async function loadStore(folderStore: FolderCommentStore, storage: CommentStorage): Promise<CommentStore | undefined> {
+  const result = await storage.load();
+  if (result && result.problems.length > 0) {
+    reportLoadProblems(folderStore, result);
+  }
+  return result?.store;
+}
+
+/**
+ * List the problems in the output channel and say what happened. Whatever
+ * could be read is in use; it replaces the damaged files the next time the
+ * comments are saved.
+ */
+function reportLoadProblems(folderStore: FolderCommentStore, result: LoadResult) {
+  const backups = result.backups.join('\n');
+  if (folderStore.reportedBackups === backups) {
+    return;
+  }
+  folderStore.reportedBackups = backups;
+
+  problemsChannel ??= vscode.window.createOutputChannel('Comment Tracker');
+  problemsChannel.appendLine(`[${new Date().toLocaleString()}] Problems reading the comments for ${folderStore.folder.name}:`);
+  result.problems.forEach(problem => problemsChannel!.appendLine(`  ${problem}`));
+  result.backups.forEach(backup => problemsChannel!.appendLine(`  The original was backed up to ${backup}`));
+
+  vscode.window.showWarningMessage(
+    `Some of the stored comments for ${folderStore.folder.name} could not be read as they are. ` +
+    'Everything that could be read has been loaded, and the original files were backed up to .comments/backups.',
+    'Show Problems'
+  ).then(choice => {
+    if (choice) {
+      problemsChannel?.show();
+    }
+  });
+}
+
+/**
+ * Load a folder's comments and start watching whichever files its storage
+ * backend writes. Opening a folder that is already open reloads it from
+ * scratch, which is how a change of storage format is picked up.
+ */
+export async function openFolderStore(folder: vscode.WorkspaceFolder): Promise<FolderCommentStore> {
+  if (folderStores.has(folder.uri.toString())) {
+    // Write what is pending to where it was going before switching
+    await flushComments();
+  }
+  closeFolderStore(folder);
+
+  const folderStore: FolderCommentStore = {
+    folder,
+    store: { comments: [] },
+    syncedStore: { comments: [] },
+    syncedFingerprint: undefined
+  };
+  folderStores.set(folder.uri.toString(), folderStore);
+
+  const storage = getStorage(folder);
+  await enqueue(async () => {
+    try {
+      const store = await loadStore(folderStore, storage);
+      if (store) {
+        folderStore.store = store;
+        folderStore.syncedStore = JSON.parse(JSON.stringify(store));
+        folderStore.syncedFingerprint = await storage.fingerprint();
+      }
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+    }
+  });
+
+  // Reload when the stored comments change on disk (git pull, branch switch, another editor)
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(folder, storage.watchPattern)
+  );
+  const reload = () => enqueue(() => reloadComments(folderStore));
+  watcher.onDidChange(reload);
+  watcher.onDidCreate(reload);
+  watcher.onDidDelete(reload);
+  folderStore.watcher = watcher;
+
+  return folderStore;
+}
+
+export function closeFolderStore(folder: vscode.WorkspaceFolder) {
+  const key = folder.uri.toString();
+  folderStores.get(key)?.watcher?.dispose();
+  folderStores.delete(key);
+}
+
+export function closeAllFolderStores() {
+  for (const folderStore of getFolderStores()) {
+    closeFolderStore(folderStore.folder);
+  }
+  problemsChannel?.dispose();
+  problemsChannel = undefined;
+}
+
+/**
+ * Bring a folder's in-memory store up to date with the comments on disk after
+ * they changed. Local changes that have not been written yet are merged with
+ * the stored comments rather than being overwritten by them.
+ */
+async function reloadComments(folderStore: FolderCommentStore) {
+  if (folderStores.get(folderStore.folder.uri.toString()) !== folderStore) {
+    // Closed since the change was noticed
+    return;
+  }
+  const storage = getStorage(folderStore.folder);
+
+  let fingerprint: string | undefined;
+  let diskStore: CommentStore;
+  try {
+    fingerprint = await storage.fingerprint();
+    if (fingerprint === folderStore.syncedFingerprint) {
+      // Our own write, or nothing actually changed
+      return;
+    }
+    diskStore = await loadStore(folderStore, storage) ?? { comments: [] };
+  } catch (error) {
+    // The files could not be read at all, perhaps mid-write; wait for the next change
+    console.error('Failed to reload comments:', error);
+    return;
+  }
+
+  const inline = inlinePart(folderStore.store);
+  const hasLocalChanges = !isEqual(persistedPart(folderStore.store), folderStore.syncedStore);
+  folderStore.store = hasLocalChanges
+    ? mergeCommentStores(folderStore.syncedStore, persistedPart(folderStore.store), diskStore)
+    : diskStore;
+  folderStore.store.comments.push(...inline);
+  folderStore.syncedStore = JSON.parse(JSON.stringify(diskStore));
+  folderStore.syncedFingerprint = fingerprint;
+
+  onDidReloadCommentsEmitter.fire(folderStore);
+
+  if (hasLocalChanges) {
+    saveComments();
+  }
+}
+
+/**
+ * Save every folder store that has changed since it was last synced. Saves
+ * are batched: the write happens once `delay` milliseconds have passed since
+ * the earliest request still waiting, and covers every change made until then.
+ * Resolves once the changes are on disk.
+ */
+export function saveComments(delay = SAVE_DELAY): Promise<void> {
+  if (folderStores.size === 0) {
+    vscode.window.showErrorMessage('No workspace folder found');
+    return Promise.resolve();
+  }
+
+  if (!pendingSave) {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => resolve = r);
+    pendingSave = { promise, resolve };
+  }
+  const due = Date.now() + delay;
+  if (!saveTimer || due < saveDue) {
+    clearTimeout(saveTimer);
+    saveDue = due;
+    saveTimer = setTimeout(() => flushComments(), delay);
+  }
+  return pendingSave.promise;
+}
+
+/**
+ * Write any pending changes now, after whatever reads and writes are already
+ * under way. Used before anything that needs the files on disk to be current,
+ * and when the extension is deactivated.
+ */
+export async function flushComments(): Promise<void> {
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+  const waiting = pendingSave;
+  pendingSave = undefined;
+
+  await enqueue(writeChangedStores);
+  waiting?.resolve();
+}
+
+async function writeChangedStores() {
+  let written = false;
+  for (const folderStore of [...folderStores.values()]) {
+    if (isEqual(persistedPart(folderStore.store), folderStore.syncedStore)) {
+      continue;
+    }
+
+    const storage = getStorage(folderStore.folder);
+    try {
+      // Someone else changed the stored comments since we last saw them: merge rather than overwrite their work
+      const fingerprint = await storage.fingerprint();
+      if (fingerprint !== undefined && fingerprint !== folderStore.syncedFingerprint) {
+        try {
+          const diskStore = await loadStore(folderStore, storage) ?? { comments: [] };
+          const inline = inlinePart(folderStore.store);
+          folderStore.store = mergeCommentStores(folderStore.syncedStore, persistedPart(folderStore.store), diskStore);
+          folderStore.store.comments.push(...inline);
+          onDidReloadCommentsEmitter.fire(folderStore);
+        } catch (error) {
+          console.error('Failed to merge comments from disk:', error);
+        }
+      }
+
+      // Changes made while this is written are picked up by the next save
+      const persisted: CommentStore = JSON.parse(JSON.stringify(persistedPart(folderStore.store)));
+      await storage.save(persisted);
+      folderStore.syncedStore = persisted;
+      folderStore.syncedFingerprint = await storage.fingerprint();
+      written = true;
+    } catch (error) {
+      console.error('Failed to save comments:', error);
+      vscode.window.showErrorMessage(`Failed to save comments for ${folderStore.folder.name}`);
+    }
+  }
+
+  if (written) {
+    onDidSaveCommentsEmitter.fire();
+  }
+}
@@ -0,0 +1,718 @@
+import * as vscode from 'vscode';
+import { formatActivity } from './activity';
+import { FolderCommentStore, getAllComments, getDeletedComments, getDisplayPath, getFolderComments, getFolderStores } from './commentStore';
+import { isOutdated, shortCommit } from './git';
+import { describeAuthor } from './identity';
+import { formatReactions } from './reactions';
+import { isStaleSuggestion } from './suggestions';
+import { getCurrentMember, isMentioned, TeamMember } from './team';
+import {
+  compareDueDate,
+  comparePriority,
+  describeDetails,
+  getKnownLabels,
+  getPriorityColor,
+  getPriorityLabel,
+  isOverdue,
+  PRIORITIES
+} from './threadDetails';
+import { CommentData, CommentPriority, CommentReplyData } from './types';
+
+export type StatusFilter = 'unresolved' | 'resolved' | 'all';
+export type GroupBy = 'file' | 'author' | 'assignee' | 'priority' | 'none';
+export type SortOrder = 'position' | 'recent' | 'priority' | 'dueDate';
+
+export interface CommentFilters {
+  text?: string;
+  author?: string;
+  /** Inclusive dates in YYYY-MM-DD form */
+  from?: string;
+  to?: string;
+  /** Only comments whose text or replies mention the current user */
+  mentionsMe?: boolean;
+  assignee?: string;
+  priority?: CommentPriority;
+  label?: string;
+  /** Only unresolved comments past their due date */
+  overdue?: boolean;
+  /** Only comments written on a branch whose name contains this, or on a commit starting with it */
+  revision?: string;
+}
+
+export interface CommentsViewOptions {
+  status: StatusFilter;
+  groupBy: GroupBy;
+  sortBy: SortOrder;
+  filters: CommentFilters;
+}
+
+const VIEW_OPTIONS_KEY = 'commentTracker.viewOptions';
+
+const DEFAULT_VIEW_OPTIONS: CommentsViewOptions = {
+  status: 'unresolved',
+  groupBy: 'file',
+  sortBy: 'position',
+  filters: {}
+};
+
+export type CommentsTreeNode = FolderTreeItem | GroupTreeItem | ArchivedTreeItem | TrashTreeItem | CommentTreeItem;
+
+export class CommentsTreeProvider implements vscode.TreeDataProvider<CommentsTreeNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<CommentsTreeNode | undefined | null | void> = new vscode.EventEmitter<CommentsTreeNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<CommentsTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private options: CommentsViewOptions;
+  private treeView: vscode.TreeView<CommentsTreeNode> | undefined;
+
+  // View options are remembered per workspace
+  constructor(private readonly memento: vscode.Memento) {
+    this.options = { ...DEFAULT_VIEW_OPTIONS, ...memento.get<CommentsViewOptions>(VIEW_OPTIONS_KEY) };
+    this.updateContext();
+  }
+
+  setTreeView(treeView: vscode.TreeView<CommentsTreeNode>) {
+    this.treeView = treeView;
+    this.updateViewDecorations();
+  }
+
+  refresh(): void {
+    this.updateViewDecorations();
+    this._onDidChangeTreeData.fire();
+  }
+
+  getOptions(): CommentsViewOptions {
+    return this.options;
+  }
+
+  updateOptions(options: Partial<CommentsViewOptions>) {
+    this.options = { ...this.options, ...options };
+    this.memento.update(VIEW_OPTIONS_KEY, this.options);
+    this.updateContext();
+    this.refresh();
+  }
+
+  getTreeItem(element: CommentsTreeNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: CommentsTreeNode): Thenable<CommentsTreeNode[]> {
+    if (element instanceof FolderTreeItem) {
+      return Promise.resolve(this.getGroupedItems(getFolderComments(element.folderStore)));
+    }
+
+    if (element instanceof GroupTreeItem) {
+      return Promise.resolve(this.getCommentItems(element.comments, element.kind === 'file'));
+    }
+
+    if (element instanceof ArchivedTreeItem || element instanceof TrashTreeItem) {
+      return Promise.resolve(this.getCommentItems(element.comments, false));
+    }
+
+    if (element) {
+      // If this is a reply item or the comment text item, it has no children
+      if (element.replyData || element.isCommentText) {
+        return Promise.resolve([]);
+      }
+
+      // For main comment items, show the comment text first, then replies
+      const children: CommentTreeItem[] = [];
+
+      // Add the comment text as a child item
+      children.push(
+        new CommentTreeItem(
+          `${element.commentData.author}: ${element.commentData.text}`,
+          vscode.TreeItemCollapsibleState.None,
+          element.commentData,
+          undefined,
+          true // Mark as comment text item
+        )
+      );
+
+      // Add replies if any
+      if (element.commentData.replies && element.commentData.replies.length > 0) {
+        element.commentData.replies.forEach(reply => {
+          children.push(
+            new CommentTreeItem(
+              `  └─ ${reply.author}: ${reply.text}`,
+              vscode.TreeItemCollapsibleState.None,
+              element.commentData,
+              reply
+            )
+          );
+        });
+      }
+
+      return Promise.resolve(children);
+    }
+
+    // Root level - group by workspace folder when there is more than one
+    const folderStores = getFolderStores();
+    const items: CommentsTreeNode[] = folderStores.length > 1
+      ? folderStores
+        .map(folderStore => new FolderTreeItem(folderStore, this.filterComments(getFolderComments(folderStore)).length))
+        .filter(item => item.matchCount > 0)
+      : this.getGroupedItems(getAllComments());
+
+    // Comments on deleted files are kept apart so they can be restored
+    const me = this.options.filters.mentionsMe ? getCurrentMember() : undefined;
+    const archivedComments = this.sortComments(
+      getAllComments().filter(c => c.archived && this.matchesFilters(c, me))
+    );
+    if (archivedComments.length > 0) {
+      items.push(new ArchivedTreeItem(archivedComments));
+    }
+
+    const deletedComments = this.sortComments(getDeletedComments().filter(c => this.matchesFilters(c, me)));
+    if (deletedComments.length > 0) {
+      items.push(new TrashTreeItem(deletedComments));
+    }
+
+    return Promise.resolve(items);
+  }
+
+  /**
+   * Comments that pass the status and text/author/date filters, in the
+   * selected order. Archived and deleted comments are never included.
+   */
+  filterComments(comments: CommentData[]): CommentData[] {
+    // Look the current user up once rather than reading the roster for every comment
+    const me = this.options.filters.mentionsMe ? getCurrentMember() : undefined;
+    return this.sortComments(
+      comments.filter(c => !c.archived && !c.deleted && this.matchesStatus(c) && this.matchesFilters(c, me))
+    );
+  }
+
+  private getGroupedItems(comments: CommentData[]): CommentsTreeNode[] {
+    const matching = this.filterComments(comments);
+    const { groupBy } = this.options;
+
+    if (groupBy === 'none') {
+      return this.getCommentItems(matching, false);
+    }
+
+    const groups = new Map<string, CommentData[]>();
+    for (const comment of matching) {
+      const key = getGroupKey(comment, groupBy);
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(comment);
+    }
+
+    return [...groups.entries()]
+      .sort(([a, aComments], [b, bComments]) => {
+        // Priority groups go from high to low and ungrouped comments come last
+        if (groupBy === 'priority') {
+          return comparePriority(aComments[0], bComments[0]);
+        }
+        if (groupBy === 'assignee' && (a === UNASSIGNED || b === UNASSIGNED)) {
+          return a === b ? 0 : a === UNASSIGNED ? 1 : -1;
+        }
+        return a.localeCompare(b);
+      })
+      .map(([key, groupComments]) => new GroupTreeItem(groupBy, key, groupComments));
+  }
+
+  private getCommentItems(comments: CommentData[], underFileGroup: boolean): CommentTreeItem[] {
+    return comments.map(comment => {
+      const line = comment.range.start.line + 1;
+      return new CommentTreeItem(
+        underFileGroup ? `Line ${line}` : `${getDisplayPath(comment)}:${line}`,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        comment
+      );
+    });
+  }
+
+  private matchesStatus(comment: CommentData): boolean {
+    switch (this.options.status) {
+      case 'resolved':
+        return !!comment.resolved;
+      case 'unresolved':
+        return !comment.resolved;
+      default:
+        return true;
+    }
+  }
+
+  private matchesFilters(comment: CommentData, me: TeamMember | undefined): boolean {
+    const { text, author, from, to, mentionsMe, assignee, priority, label, overdue, revision } = this.options.filters;
+    const replies = comment.replies ?? [];
+
+    if (mentionsMe && (!me || !isMentioned(comment, me.handle))) {
+      return false;
+    }
+
+    if (assignee && !comment.assignee?.toLowerCase().includes(assignee.toLowerCase())) {
+      return false;
+    }
+    if (priority && comment.priority !== priority) {
+      return false;
+    }
+    if (label && !comment.labels?.includes(label)) {
+      return false;
+    }
+    if (overdue && !isOverdue(comment)) {
+      return false;
+    }
+    if (revision && !(comment.git?.branch?.toLowerCase().includes(revision.toLowerCase()) || comment.git?.commit.startsWith(revision.toLowerCase()))) {
+      return false;
+    }
+
+    if (text) {
+      const needle = text.toLowerCase();
+      const texts = [comment.text, ...replies.map(r => r.text)];
+      if (!texts.some(t => t.toLowerCase().includes(needle))) {
+        return false;
+      }
+    }
+
+    if (author) {
+      const needle = author.toLowerCase();
+      // Matches email addresses too, so one person is found under any name they have used
+      const authors = [comment, ...replies].flatMap(entry => [entry.author, entry.identity?.email ?? '']);
+      if (!authors.some(a => a.toLowerCase().includes(needle))) {
+        return false;
+      }
+    }
+
+    const created = new Date(comment.timestamp).getTime();
+    if (from && created < new Date(`${from}T00:00:00`).getTime()) {
+      return false;
+    }
+    if (to && created > new Date(`${to}T23:59:59.999`).getTime()) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private sortComments(comments: CommentData[]): CommentData[] {
+    const sorted = [...comments];
+    const byPosition = (a: CommentData, b: CommentData) =>
+      getDisplayPath(a).localeCompare(getDisplayPath(b)) ||
+      a.range.start.line - b.range.start.line ||
+      a.range.start.character - b.range.start.character;
+
+    switch (this.options.sortBy) {
+      case 'recent':
+        sorted.sort((a, b) => getLastActivity(b) - getLastActivity(a));
+        break;
+      case 'priority':
+        sorted.sort((a, b) => comparePriority(a, b) || compareDueDate(a, b) || byPosition(a, b));
+        break;
+      case 'dueDate':
+        sorted.sort((a, b) => compareDueDate(a, b) || comparePriority(a, b) || byPosition(a, b));
+        break;
+      default:
+        sorted.sort(byPosition);
+    }
+    return sorted;
+  }
+
+  private describeOptions(): string | undefined {
+    const { status, filters } = this.options;
+    const parts: string[] = [];
+    if (status !== 'unresolved') {
+      parts.push(status === 'all' ? 'all comments' : 'resolved only');
+    }
+    if (filters.text) {
+      parts.push(`text: "${filters.text}"`);
+    }
+    if (filters.author) {
+      parts.push(`author: ${filters.author}`);
+    }
+    if (filters.from || filters.to) {
+      parts.push(`date: ${filters.from ?? '…'} to ${filters.to ?? '…'}`);
+    }
+    if (filters.mentionsMe) {
+      parts.push('mentioning me');
+    }
+    if (filters.assignee) {
+      parts.push(`assignee: ${filters.assignee}`);
+    }
+    if (filters.priority) {
+      parts.push(`${getPriorityLabel(filters.priority).toLowerCase()} priority`);
+    }
+    if (filters.label) {
+      parts.push(`label: ${filters.label}`);
+    }
+    if (filters.overdue) {
+      parts.push('overdue');
+    }
+    if (filters.revision) {
+      parts.push(`revision: ${filters.revision}`);
+    }
+    return parts.length > 0 ? `Showing ${parts.join(', ')}` : undefined;
+  }
+
+  private updateViewDecorations() {
+    if (!this.treeView) {
+      return;
+    }
+
+    const unresolvedCount = getAllComments().filter(c => !c.resolved && !c.archived).length;
+    this.treeView.badge = unresolvedCount > 0
+      ? { value: unresolvedCount, tooltip: `${unresolvedCount} unresolved comment${unresolvedCount === 1 ? '' : 's'}` }
+      : undefined;
+    this.treeView.message = this.describeOptions();
+  }
+
+  private updateContext() {
+    const { filters } = this.options;
+    const filtered = !!(
+      filters.text || filters.author || filters.from || filters.to || filters.mentionsMe ||
+      filters.assignee || filters.priority || filters.label || filters.overdue || filters.revision
+    );
+    vscode.commands.executeCommand('setContext', 'commentTracker.filtered', filtered);
+  }
+}
+
+const UNASSIGNED = 'Unassigned';
+
+function getGroupKey(comment: CommentData, groupBy: GroupBy): string {
+  switch (groupBy) {
+    case 'file':
+      return getDisplayPath(comment);
+    case 'assignee':
+      return comment.assignee ?? UNASSIGNED;
+    case 'priority':
+      return comment.priority ? `${getPriorityLabel(comment.priority)} priority` : 'No priority';
+    default:
+      return comment.author;
+  }
+}
+
+function getLastActivity(comment: CommentData): number {
+  const times = [comment.timestamp, comment.editedAt, ...(comment.replies ?? []).flatMap(r => [r.timestamp, r.editedAt])];
+  return Math.max(...times.filter((t): t is string => !!t).map(t => new Date(t).getTime()));
+}
+
+class FolderTreeItem extends vscode.TreeItem {
+  constructor(public readonly folderStore: FolderCommentStore, public readonly matchCount: number) {
+    super(folderStore.folder.name, vscode.TreeItemCollapsibleState.Expanded);
+
+    this.description = `${matchCount}`;
+    this.tooltip = folderStore.folder.uri.fsPath;
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.resourceUri = folderStore.folder.uri;
+  }
+}
+
+class GroupTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly kind: Exclude<GroupBy, 'none'>,
+    key: string,
+    public readonly comments: CommentData[]
+  ) {
+    super(key, vscode.TreeItemCollapsibleState.Expanded);
+
+    const unresolvedCount = comments.filter(c => !c.resolved).length;
+    this.description = unresolvedCount === comments.length
+      ? `${comments.length}`
+      : `${comments.length} (${unresolvedCount} unresolved)`;
+    switch (kind) {
+      case 'file':
+        this.iconPath = vscode.ThemeIcon.File;
+        break;
+      case 'priority':
+        this.iconPath = new vscode.ThemeIcon('flame', getPriorityColor(comments[0].priority));
+        break;
+      default:
+        this.iconPath = new vscode.ThemeIcon('person');
+    }
+    this.contextValue = kind === 'file' ? 'commentFile' : kind === 'author' ? 'commentAuthor' : 'commentGroup';
+  }
+}
+
+class ArchivedTreeItem extends vscode.TreeItem {
+  constructor(public readonly comments: CommentData[]) {
+    super('Archived', vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.description = `${comments.length}`;
+    this.tooltip = 'Comments on files that have been deleted';
+    this.iconPath = new vscode.ThemeIcon('archive');
+  }
+}
+
+class TrashTreeItem extends vscode.TreeItem {
+  constructor(public readonly comments: CommentData[]) {
+    super('Trash', vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.description = `${comments.length}`;
+    this.tooltip = 'Deleted comment threads, which can be restored or deleted permanently';
+    this.iconPath = new vscode.ThemeIcon('trash');
+    this.contextValue = 'commentTrash';
+  }
+}
+
+/** What became of a thread's suggested edit, if it has one */
+function describeSuggestion(commentData: CommentData): string {
+  if (!commentData.suggestion) {
+    return '';
+  }
+  if (commentData.suggestion.status) {
+    return `suggestion ${commentData.suggestion.status}`;
+  }
+  return isStaleSuggestion(commentData) ? 'suggestion outdated' : 'suggestion';
+}
+
+/** The most recent entries of a thread's activity log, for tooltips */
+const TOOLTIP_ACTIVITY_LIMIT = 10;
+
+export class CommentTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly commentData: CommentData,
+    public readonly replyData?: CommentReplyData,
+    public readonly isCommentText?: boolean
+  ) {
+    super(label, collapsibleState);
+
+    // Set tooltip and description based on item type
+    if (isCommentText) {
+      // This is the comment text child item - no description needed
+      this.tooltip = `${describeAuthor(commentData)} - ${new Date(commentData.timestamp).toLocaleString()}\n\n${commentData.text}`;
+      this.description = '';
+    } else if (!replyData) {
+      // This is the root comment item (filename:line)
+      const replyCount = commentData.replies?.length ?? 0;
+      const details = describeDetails(commentData);
+      this.tooltip = `${describeAuthor(commentData)} - ${new Date(commentData.timestamp).toLocaleString()}\n\n${commentData.text}` +
+        (replyCount > 0 ? `\n\n${replyCount} repl${replyCount === 1 ? 'y' : 'ies'}` : '') +
+        (commentData.suggestion ? `\n\nSuggests replacing:\n${commentData.suggestion.original}\nwith:\n${commentData.suggestion.text}` : '') +
+        (details.length > 0 ? `\n\n${details.join('\n')}` : '') +
+        (commentData.git ? `\n\nWritten on ${commentData.git.branch ? `${commentData.git.branch} at ` : ''}${shortCommit(commentData.git.commit)}` : '') +
+        formatActivityTooltip(commentData);
+      this.description = [
+        commentData.author,
+        formatReactions(commentData, ' '),
+        describeSuggestion(commentData),
+        commentData.resolved ? 'resolved' : '',
+        commentData.orphaned ? 'orphaned' : '',
+        isOutdated(commentData) ? 'outdated' : '',
+        commentData.scope ? `⎇ ${commentData.scope}` : '',
+        commentData.assignee ? `→ ${commentData.assignee}` : '',
+        commentData.dueDate ? (isOverdue(commentData) ? `overdue ${commentData.dueDate}` : `due ${commentData.dueDate}`) : '',
+        ...(commentData.labels ?? []).map(label => `#${label}`)
+      ].filter(Boolean).join(' · ');
+      // Unresolved comments take the colour of their priority
+      this.iconPath = commentData.resolved
+        ? new vscode.ThemeIcon('pass')
+        : new vscode.ThemeIcon('comment', getPriorityColor(commentData.priority));
+      if (commentData.deleted) {
+        this.contextValue = 'deletedComment';
+      } else if (commentData.archived) {
+        this.contextValue = 'archivedComment';
+      } else {
+        this.contextValue = commentData.resolved ? 'resolvedComment' : 'comment';
+      }
+    } else {
+      // This is a reply item
+      this.tooltip = `${describeAuthor(replyData)} - ${new Date(replyData.timestamp).toLocaleString()}`;
+      this.description = formatReactions(replyData, ' ');
+    }
+
+    // Add command to navigate to comment when clicked (only for root items and comment text items)
+    // Archived and deleted comments have no thread to go to
+    if ((!replyData || isCommentText) && !commentData.archived && !commentData.deleted) {
+      this.command = {
+        command: 'comment-tracker.navigateToComment',
+        title: 'Go to Comment',
+        arguments: [commentData]
+      };
+    }
+  }
+}
+
+function formatActivityTooltip(commentData: CommentData): string {
+  const activity = commentData.activity ?? [];
+  if (activity.length === 0) {
+    return '';
+  }
+  const recent = activity.slice(-TOOLTIP_ACTIVITY_LIMIT).map(formatActivity);
+  const earlier = activity.length - recent.length;
+  return `\n\nActivity:\n${earlier > 0 ? `(${earlier} earlier)\n` : ''}${recent.join('\n')}`;
+}
+
+/**
+ * Quick Pick flows behind the view's title bar actions.
+ */
+export async function chooseStatusFilter(provider: CommentsTreeProvider) {
+  const current = provider.getOptions().status;
+  const items: Array<vscode.QuickPickItem & { value: StatusFilter }> = [
+    { label: 'Unresolved', value: 'unresolved' },
+    { label: 'Resolved', value: 'resolved' },
+    { label: 'All', value: 'all' }
+  ];
+  items.forEach(item => item.description = item.value === current ? 'current' : undefined);
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Show which comments?' });
+  if (selected) {
+    provider.updateOptions({ status: selected.value });
+  }
+}
+
+export async function chooseGrouping(provider: CommentsTreeProvider) {
+  const current = provider.getOptions().groupBy;
+  const items: Array<vscode.QuickPickItem & { value: GroupBy }> = [
+    { label: 'File', value: 'file' },
+    { label: 'Author', value: 'author' },
+    { label: 'Assignee', value: 'assignee' },
+    { label: 'Priority', value: 'priority' },
+    { label: 'None', value: 'none' }
+  ];
+  items.forEach(item => item.description = item.value === current ? 'current' : undefined);
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Group comments by' });
+  if (selected) {
+    provider.updateOptions({ groupBy: selected.value });
+  }
+}
+
+export async function chooseSortOrder(provider: CommentsTreeProvider) {
+  const current = provider.getOptions().sortBy;
+  const items: Array<vscode.QuickPickItem & { value: SortOrder }> = [
+    { label: 'Position in file', value: 'position' },
+    { label: 'Most recent activity', value: 'recent' },
+    { label: 'Priority', value: 'priority' },
+    { label: 'Due date', value: 'dueDate' }
+  ];
+  items.forEach(item => item.description = item.value === current ? 'current' : undefined);
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Sort comments by' });
+  if (selected) {
+    provider.updateOptions({ sortBy: selected.value });
+  }
+}
+
+/**
+ * Show only the comments that mention the current user, or stop doing so.
+ */
+export function toggleMentionsFilter(provider: CommentsTreeProvider) {
+  const filters = provider.getOptions().filters;
+  if (!filters.mentionsMe && !getCurrentMember()) {
+    vscode.window.showWarningMessage(
+      'You are not on the team roster. Add yourself to .comments/team.json with your Git email, or set a default author matching your name or handle.'
+    );
+    return;
+  }
+  provider.updateOptions({ filters: { ...filters, mentionsMe: filters.mentionsMe ? undefined : true } });
+}
+
+export async function chooseFilters(provider: CommentsTreeProvider) {
+  const filters = provider.getOptions().filters;
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: 'Text', description: filters.text, value: 'text' as const },
+      { label: 'Author', description: filters.author, value: 'author' as const },
+      {
+        label: 'Date range',
+        description: filters.from || filters.to ? `${filters.from ?? '…'} to ${filters.to ?? '…'}` : undefined,
+        value: 'date' as const
+      },
+      { label: 'Mentioning me', description: filters.mentionsMe ? 'on' : undefined, value: 'mentionsMe' as const },
+      { label: 'Assignee', description: filters.assignee, value: 'assignee' as const },
+      {
+        label: 'Priority',
+        description: filters.priority ? getPriorityLabel(filters.priority) : undefined,
+        value: 'priority' as const
+      },
+      { label: 'Label', description: filters.label, value: 'label' as const },
+      { label: 'Overdue', description: filters.overdue ? 'on' : undefined, value: 'overdue' as const },
+      { label: 'Branch or commit', description: filters.revision, value: 'revision' as const },
+      { label: 'Clear all filters', value: 'clear' as const }
+    ],
+    { placeHolder: 'Filter comments by' }
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  if (selected.value === 'clear') {
+    provider.updateOptions({ filters: {} });
+    return;
+  }
+
+  if (selected.value === 'mentionsMe') {
+    toggleMentionsFilter(provider);
+    return;
+  }
+
+  if (selected.value === 'overdue') {
+    provider.updateOptions({ filters: { ...filters, overdue: filters.overdue ? undefined : true } });
+    return;
+  }
+
+  if (selected.value === 'priority') {
+    const priority = await vscode.window.showQuickPick(
+      [
+        ...PRIORITIES.map(p => ({ label: p.label, value: p.value as CommentPriority | undefined })),
+        { label: 'Any', value: undefined }
+      ],
+      { placeHolder: 'Show comments with priority' }
+    );
+    if (priority) {
+      provider.updateOptions({ filters: { ...filters, priority: priority.value } });
+    }
+    return;
+  }
+
+  if (selected.value === 'label') {
+    const label = await vscode.window.showQuickPick(
+      [...getKnownLabels().map(l => ({ label: l, value: l as string | undefined })), { label: 'Any', value: undefined }],
+      { placeHolder: 'Show comments with label' }
+    );
+    if (label) {
+      provider.updateOptions({ filters: { ...filters, label: label.value } });
+    }
+    return;
+  }
+
+  if (selected.value === 'text' || selected.value === 'author' || selected.value === 'assignee' || selected.value === 'revision') {
+    const prompts = {
+      text: 'Show comments whose text (or a reply) contains',
+      author: 'Show comments by (or replied to by) an author whose name or email contains',
+      assignee: 'Show comments assigned to someone whose name contains',
+      revision: 'Show comments written on a branch whose name contains, or on a commit starting with'
+    };
+    const value = await vscode.window.showInputBox({
+      prompt: prompts[selected.value],
+      value: filters[selected.value] ?? '',
+      placeHolder: 'Leave empty to clear'
+    });
+    if (value !== undefined) {
+      provider.updateOptions({ filters: { ...filters, [selected.value]: value.trim() || undefined } });
+    }
+    return;
+  }
+
+  const validateDate = (value: string) =>
+    value === '' || (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime()))
+      ? undefined
+      : 'Use the form YYYY-MM-DD';
+
+  const from = await vscode.window.showInputBox({
+    prompt: 'Show comments created on or after (YYYY-MM-DD)',
+    value: filters.from ?? '',
+    placeHolder: 'Leave empty for no start date',
+    validateInput: validateDate
+  });
+  if (from === undefined) {
+    return;
+  }
+
+  const to = await vscode.window.showInputBox({
+    prompt: 'Show comments created on or before (YYYY-MM-DD)',
+    value: filters.to ?? '',
+    placeHolder: 'Leave empty for no end date',
+    validateInput: validateDate
+  });
+  if (to === undefined) {
+    return;
+  }
+
+  provider.updateOptions({ filters: { ...filters, from: from || undefined, to: to || undefined } });
+}
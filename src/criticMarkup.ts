@@ -0,0 +1,201 @@
+/**
+ * CriticMarkup comments: `{==highlighted text==}{>>comment<<}`, or a bare
+ * `{>>comment<<}` that refers to the text before it on the same line. Several
+ * comment blocks in a row form a thread, the first being the comment and the
+ * rest its replies. A comment may name its author with a leading `@name:`, or
+ * its author and time with `@name (2024-05-01T10:00:00.000Z):`.
+ *
+ * Other CriticMarkup (additions, deletions, substitutions) is left alone.
+ */
+
+export interface CriticNote {
+  author?: string;
+  timestamp?: string;
+  text: string;
+}
+
+export interface CriticAnnotation {
+  /** Where the whole annotation, markup included, sits in the original text */
+  markupStart: number;
+  markupEnd: number;
+  /** Where the comment blocks start in the original text; they run to `markupEnd` */
+  notesStart: number;
+  /** Where the commented text sits in the original text */
+  textStart: number;
+  textEnd: number;
+  /** Where the commented text sits once the comment markup is removed */
+  start: number;
+  end: number;
+  /** Whether the commented text is wrapped in `{==...==}` rather than preceding a bare comment */
+  highlighted: boolean;
+  notes: CriticNote[];
+}
+
+const ANNOTATION_PATTERN = /\{==([\s\S]*?)==\}((?:\{>>[\s\S]*?<<\})*)|((?:\{>>[\s\S]*?<<\})+)/g;
+const NOTE_PATTERN = /\{>>([\s\S]*?)<<\}/g;
+const AUTHOR_PATTERN = /^\s*@([^:(\n]+?)\s*(?:\(([^)\n]*)\))?:\s*/;
+
+/**
+ * Find the comment annotations in `text` and return the text with their markup
+ * removed, along with where each annotation's commented text ends up.
+ */
+export function parseCriticMarkup(text: string): { stripped: string; annotations: CriticAnnotation[] } {
+  const annotations: CriticAnnotation[] = [];
+  // Bare comments are anchored to the rest of their line once the line is complete
+  const bareAnnotations: CriticAnnotation[] = [];
+  // Runs of original text kept in the stripped text, for mapping offsets back
+  const chunks: { start: number; original: number; length: number }[] = [];
+  let stripped = '';
+  let lastIndex = 0;
+
+  const keep = (original: number, length: number) => {
+    chunks.push({ start: stripped.length, original, length });
+    stripped += text.slice(original, original + length);
+  };
+
+  for (const match of text.matchAll(ANNOTATION_PATTERN)) {
+    const index = match.index ?? 0;
+    keep(lastIndex, index - lastIndex);
+    lastIndex = index + match[0].length;
+
+    if (match[1] !== undefined) {
+      const start = stripped.length;
+      keep(index + 3, match[1].length);
+      const notes = parseNotes(match[2]);
+      // A highlight without a comment is just emphasis; drop the markup but keep no annotation
+      if (notes.length > 0) {
+        annotations.push({
+          markupStart: index,
+          markupEnd: lastIndex,
+          notesStart: index + match[1].length + 6,
+          textStart: index + 3,
+          textEnd: index + 3 + match[1].length,
+          start,
+          end: stripped.length,
+          highlighted: true,
+          notes
+        });
+      }
+    } else {
+      const annotation = {
+        markupStart: index,
+        markupEnd: lastIndex,
+        notesStart: index,
+        textStart: index,
+        textEnd: index,
+        start: stripped.length,
+        end: stripped.length,
+        highlighted: false,
+        notes: parseNotes(match[3])
+      };
+      annotations.push(annotation);
+      bareAnnotations.push(annotation);
+    }
+  }
+  keep(lastIndex, text.length - lastIndex);
+
+  for (const annotation of bareAnnotations) {
+    const lineStart = stripped.lastIndexOf('\n', annotation.end - 1) + 1;
+    if (lineStart < annotation.end) {
+      annotation.start = lineStart;
+    } else {
+      // Comment at the start of a line: use the rest of the line, or the next
+      // line when the comment stood on a line of its own
+      let lineEnd = stripped.indexOf('\n', annotation.end);
+      if (lineEnd === annotation.end) {
+        annotation.start = annotation.end = lineEnd + 1;
+        lineEnd = stripped.indexOf('\n', annotation.end);
+      }
+      annotation.end = lineEnd === -1 ? stripped.length : lineEnd;
+    }
+    annotation.textStart = toOriginalOffset(chunks, annotation.start, 'start');
+    annotation.textEnd = toOriginalOffset(chunks, annotation.end, 'end');
+  }
+
+  return { stripped, annotations };
+}
+
+/**
+ * Remove the comment markup from `text`, keeping the commented text and any
+ * highlights that have no comment, and return each commented annotation with
+ * where its text ends up. The offsets in `parseCriticMarkup`'s annotations
+ * are into text with the highlights removed as well, so they only hold here
+ * when there are none.
+ */
+export function removeCommentMarkup(text: string): {
+  text: string;
+  comments: { annotation: CriticAnnotation; start: number; end: number }[];
+} {
+  const commented = parseCriticMarkup(text).annotations.filter(annotation => annotation.notes.length > 0);
+  // The spans of the original text that are removed, in order
+  const removed = commented.flatMap(annotation => annotation.highlighted
+    ? [{ start: annotation.markupStart, end: annotation.textStart }, { start: annotation.textEnd, end: annotation.markupEnd }]
+    : [{ start: annotation.markupStart, end: annotation.markupEnd }]);
+
+  const toResultOffset = (offset: number) => removed
+    .filter(span => span.start < offset)
+    .reduce((result, span) => result - (Math.min(offset, span.end) - span.start), offset);
+
+  let result = '';
+  let lastIndex = 0;
+  for (const span of removed) {
+    result += text.slice(lastIndex, span.start);
+    lastIndex = span.end;
+  }
+  result += text.slice(lastIndex);
+
+  return {
+    text: result,
+    comments: commented.map(annotation => ({
+      annotation,
+      start: toResultOffset(annotation.textStart),
+      end: toResultOffset(annotation.textEnd)
+    }))
+  };
+}
+
+/**
+ * Map an offset in the stripped text back to the original. An offset where
+ * markup was removed maps to just after the markup for a range start, and
+ * just before it for a range end.
+ */
+function toOriginalOffset(
+  chunks: { start: number; original: number; length: number }[],
+  offset: number,
+  bias: 'start' | 'end'
+): number {
+  const chunk = bias === 'start'
+    ? [...chunks].reverse().find(c => c.start <= offset)
+    : chunks.find(c => c.start + c.length >= offset);
+  return chunk ? chunk.original + (offset - chunk.start) : offset;
+}
+
+function parseNotes(source: string): CriticNote[] {
+  const notes: CriticNote[] = [];
+  for (const match of source.matchAll(NOTE_PATTERN)) {
+    const body = match[1].trim();
+    const authorMatch = AUTHOR_PATTERN.exec(body);
+    notes.push(
+      authorMatch
+        ? {
+          author: authorMatch[1].trim(),
+          timestamp: authorMatch[2]?.trim() || undefined,
+          text: body.slice(authorMatch[0].length).trim()
+        }
+        : { text: body }
+    );
+  }
+  return notes;
+}
+
+/**
+ * Write notes back out as consecutive comment blocks, the inverse of what
+ * `parseCriticMarkup` reads.
+ */
+export function formatCriticNotes(notes: CriticNote[]): string {
+  return notes.map(note => {
+    const header = note.author ? `@${note.author}${note.timestamp ? ` (${note.timestamp})` : ''}: ` : '';
+    // A closing marker inside the text would end the block early
+    return `{>>${header}${note.text.replace(/<<\}/g, '<< }')}<<}`;
+  }).join('');
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { getCommentsForUri } from './commentStore';
+import { isOutdated, shortCommit } from './git';
+import { describeDetails } from './threadDetails';
+import { CommentData } from './types';
+
+/**
+ * Highlights over commented text, with marks in the overview ruler and the
+ * gutter, coloured by thread status. Hovering a highlight shows the thread.
+ */
+
+type HighlightKind = 'unresolved' | 'resolved' | 'orphaned';
+type HighlightSetting = 'all' | 'unresolved' | 'none';
+
+const HIGHLIGHT_KINDS: HighlightKind[] = ['unresolved', 'resolved', 'orphaned'];
+
+let extensionUri: vscode.Uri | undefined;
+let decorationTypes: Map<HighlightKind, vscode.TextEditorDecorationType> | undefined;
+
+export function initCommentDecorations(uri: vscode.Uri) {
+  extensionUri = uri;
+}
+
+function getDecorationTypes(): Map<HighlightKind, vscode.TextEditorDecorationType> {
+  if (!decorationTypes) {
+    const config = vscode.workspace.getConfiguration('commentTracker');
+    const showGutterIcons = config.get<boolean>('showGutterIcons', true);
+    const showInOverviewRuler = config.get<boolean>('showInOverviewRuler', true);
+
+    decorationTypes = new Map(HIGHLIGHT_KINDS.map(kind => [kind, vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor(`commentTracker.${kind}Background`),
+      overviewRulerColor: showInOverviewRuler ? new vscode.ThemeColor(`commentTracker.${kind}OverviewRuler`) : undefined,
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+      gutterIconPath: showGutterIcons && extensionUri ? vscode.Uri.joinPath(extensionUri, 'media', `comment-${kind}.svg`) : undefined,
+      gutterIconSize: 'contain',
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+    })]));
+  }
+  return decorationTypes;
+}
+
+function getHighlightKind(commentData: CommentData): HighlightKind {
+  if (commentData.orphaned) {
+    return 'orphaned';
+  }
+  return commentData.resolved ? 'resolved' : 'unresolved';
+}
+
+/**
+ * The thread as hover content: status, details, the comment and its replies.
+ */
+function createHover(commentData: CommentData): vscode.MarkdownString {
+  const hover = new vscode.MarkdownString();
+  const status = [
+    commentData.resolved ? 'Resolved' : 'Open',
+    ...(commentData.orphaned ? ['orphaned: the commented text could not be found'] : []),
+    ...(isOutdated(commentData) ? [`outdated: the lines changed since ${shortCommit(commentData.git!.commit)}`] : []),
+    ...describeDetails(commentData)
+  ];
+  hover.appendMarkdown(`*${status.join(' · ')}*\n\n`);
+
+  for (const entry of [commentData, ...(commentData.replies ?? [])]) {
+    hover.appendMarkdown('**');
+    hover.appendText(entry.author);
+    hover.appendMarkdown(`** · ${new Date(entry.timestamp).toLocaleString()}\n\n`);
+    hover.appendText(entry.text);
+    hover.appendMarkdown('\n\n');
+  }
+  return hover;
+}
+
+export function updateCommentDecorations(editor: vscode.TextEditor) {
+  const setting = vscode.workspace.getConfiguration('commentTracker', editor.document.uri).get<HighlightSetting>('highlightComments', 'all');
+  const ranges = new Map<HighlightKind, vscode.DecorationOptions[]>(HIGHLIGHT_KINDS.map(kind => [kind, []]));
+
+  if (setting !== 'none') {
+    for (const commentData of getCommentsForUri(editor.document.uri)) {
+      if (setting === 'unresolved' && commentData.resolved) {
+        continue;
+      }
+      const { start, end } = commentData.range;
+      ranges.get(getHighlightKind(commentData))!.push({
+        range: new vscode.Range(start.line, start.character, end.line, end.character),
+        hoverMessage: createHover(commentData)
+      });
+    }
+  }
+
+  for (const [kind, decorationType] of getDecorationTypes()) {
+    editor.setDecorations(decorationType, ranges.get(kind)!);
+  }
+}
+
+/**
+ * Recreate the decoration types after the settings that shape them changed.
+ */
+export function resetCommentDecorations() {
+  disposeCommentDecorations();
+  vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+}
+
+export function disposeCommentDecorations() {
+  decorationTypes?.forEach(decorationType => decorationType.dispose());
+  decorationTypes = undefined;
+}
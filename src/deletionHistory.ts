@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import { migrateId } from './ids';
+import { CommentReplyData } from './types';
+
+/**
+ * Recently deleted threads and replies, most recent first, so a deletion can
+ * be undone. Deleted threads stay in the comments file as Trash tombstones and
+ * are referred to by id; deleted replies are removed from their thread, so the
+ * reply itself is kept here.
+ */
+export type DeletedEntry =
+  | { kind: 'thread'; commentId: string; deletedAt: string }
+  | { kind: 'reply'; commentId: string; reply: CommentReplyData; index: number; deletedAt: string };
+
+const HISTORY_KEY = 'commentTracker.deletionHistory';
+const HISTORY_LIMIT = 50;
+
+// Deletions are remembered per workspace, like the view options
+export class DeletionHistory {
+  constructor(private readonly memento: vscode.Memento) { }
+
+  getEntries(): DeletedEntry[] {
+    // Entries from before ids were UUIDs refer to threads by their old ids
+    return (this.memento.get<DeletedEntry[]>(HISTORY_KEY) ?? []).map(entry => entry.kind === 'thread'
+      ? { ...entry, commentId: migrateId(entry.commentId) }
+      : { ...entry, commentId: migrateId(entry.commentId), reply: { ...entry.reply, id: migrateId(entry.reply.id) } });
+  }
+
+  add(entry: DeletedEntry) {
+    this.memento.update(HISTORY_KEY, [entry, ...this.getEntries()].slice(0, HISTORY_LIMIT));
+  }
+
+  /** Forget entries after they are restored, or when they can no longer be */
+  remove(predicate: (entry: DeletedEntry) => boolean) {
+    const entries = this.getEntries();
+    const remaining = entries.filter(entry => !predicate(entry));
+    if (remaining.length !== entries.length) {
+      this.memento.update(HISTORY_KEY, remaining);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import * as zlib from 'zlib';
+import { createAnchor } from './anchoring';
+import { ImportedComment } from './types';
+
+/**
+ * Reads review comments out of a Word (.docx) file: the comment text, author
+ * and date from `word/comments.xml`, the commented text from the comment
+ * ranges in `word/document.xml`, and reply chains and resolved state from
+ * `word/commentsExtended.xml` when present.
+ */
+export function parseDocxComments(data: Buffer): ImportedComment[] {
+  const files = readZip(data);
+  const commentsXml = files.get('word/comments.xml');
+  const documentXml = files.get('word/document.xml');
+  if (!commentsXml || !documentXml) {
+    return [];
+  }
+
+  const rawComments = parseCommentsXml(commentsXml);
+  const { text: documentText, ranges } = parseDocumentRanges(documentXml);
+  const extended = parseCommentsExtended(files.get('word/commentsExtended.xml'));
+
+  // Replies point at their parent through the paragraph id of the parent's last paragraph
+  const byParaId = new Map(rawComments.filter(c => c.paraId).map(c => [c.paraId!, c]));
+  const parentOf = new Map<RawComment, RawComment>();
+  for (const comment of rawComments) {
+    const parentParaId = comment.paraId ? extended.get(comment.paraId)?.parentParaId : undefined;
+    const parent = parentParaId ? byParaId.get(parentParaId) : undefined;
+    if (parent && parent !== comment) {
+      parentOf.set(comment, parent);
+    }
+  }
+
+  const rootOf = (comment: RawComment): RawComment => {
+    let root = comment;
+    const seen = new Set<RawComment>();
+    while (parentOf.has(root) && !seen.has(root)) {
+      seen.add(root);
+      root = parentOf.get(root)!;
+    }
+    return root;
+  };
+
+  const imported = new Map<RawComment, ImportedComment>();
+  for (const comment of rawComments) {
+    if (parentOf.has(comment)) {
+      continue;
+    }
+
+    const range = ranges.get(comment.id) ?? { start: 0, end: 0 };
+    imported.set(comment, {
+      author: comment.author,
+      timestamp: comment.date,
+      text: comment.text,
+      anchor: createAnchor(documentText, range.start, range.end),
+      resolved: comment.paraId ? extended.get(comment.paraId)?.done : undefined,
+      replies: []
+    });
+  }
+
+  for (const comment of rawComments) {
+    if (!parentOf.has(comment)) {
+      continue;
+    }
+    imported.get(rootOf(comment))?.replies.push({
+      author: comment.author,
+      timestamp: comment.date,
+      text: comment.text
+    });
+  }
+
+  return [...imported.values()];
+}
+
+interface RawComment {
+  id: string;
+  author: string;
+  date?: string;
+  text: string;
+  paraId?: string;
+}
+
+function parseCommentsXml(xml: string): RawComment[] {
+  const comments: RawComment[] = [];
+  const commentPattern = /<w:comment\b([^>]*)>([\s\S]*?)<\/w:comment>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = commentPattern.exec(xml)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const body = match[2];
+
+    const paragraphs = [...body.matchAll(/<w:p\b([^>]*)>([\s\S]*?)<\/w:p>/g)];
+    const lastParagraph = paragraphs[paragraphs.length - 1];
+
+    comments.push({
+      id: attributes['w:id'] ?? '',
+      author: attributes['w:author'] || 'Unknown',
+      date: attributes['w:date'],
+      text: paragraphs.map(p => extractRunText(p[2])).join('\n').trim(),
+      paraId: lastParagraph ? parseAttributes(lastParagraph[1])['w14:paraId'] : undefined
+    });
+  }
+
+  return comments;
+}
+
+function parseCommentsExtended(xml: string | undefined): Map<string, { parentParaId?: string; done: boolean }> {
+  const extended = new Map<string, { parentParaId?: string; done: boolean }>();
+  if (!xml) {
+    return extended;
+  }
+
+  for (const match of xml.matchAll(/<w15:commentEx\b([^>]*)\/?>/g)) {
+    const attributes = parseAttributes(match[1]);
+    const paraId = attributes['w15:paraId'];
+    if (paraId) {
+      extended.set(paraId, {
+        parentParaId: attributes['w15:paraIdParent'],
+        done: attributes['w15:done'] === '1'
+      });
+    }
+  }
+  return extended;
+}
+
+/**
+ * Flatten the document body to plain text, one line per paragraph, recording
+ * where each comment range starts and ends in that text.
+ */
+function parseDocumentRanges(xml: string): { text: string; ranges: Map<string, { start: number; end: number }> } {
+  const ranges = new Map<string, { start: number; end: number }>();
+  let text = '';
+
+  const tokenPattern = /<w:commentRangeStart\b([^>]*)\/>|<w:commentRangeEnd\b([^>]*)\/>|<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>|<\/w:p>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const token = match[0];
+    if (match[1] !== undefined) {
+      const id = parseAttributes(match[1])['w:id'];
+      if (id !== undefined) {
+        ranges.set(id, { start: text.length, end: text.length });
+      }
+    } else if (match[2] !== undefined) {
+      const id = parseAttributes(match[2])['w:id'];
+      const range = id !== undefined ? ranges.get(id) : undefined;
+      if (range) {
+        range.end = text.length;
+      }
+    } else if (match[3] !== undefined) {
+      text += decodeXml(match[3]);
+    } else if (token === '<w:tab/>') {
+      text += '\t';
+    } else {
+      text += '\n';
+    }
+  }
+
+  // Ranges that end at a paragraph break should not include it
+  for (const range of ranges.values()) {
+    while (range.end > range.start && text[range.end - 1] === '\n') {
+      range.end--;
+    }
+  }
+
+  return { text, ranges };
+}
+
+function extractRunText(xml: string): string {
+  let text = '';
+  for (const match of xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>/g)) {
+    if (match[1] !== undefined) {
+      text += decodeXml(match[1]);
+    } else {
+      text += match[0] === '<w:tab/>' ? '\t' : '\n';
+    }
+  }
+  return text;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+/**
+ * Minimal reader for the zip container, enough for the stored and deflated
+ * entries Word writes. Returns the text of every entry by name.
+ */
+function readZip(data: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+
+  // The end of central directory record sits at the end, before an optional comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid .docx file');
+  }
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt .docx file');
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localHeader = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const localNameLength = data.readUInt16LE(localHeader + 26);
+    const localExtraLength = data.readUInt16LE(localHeader + 28);
+    const start = localHeader + 30 + localNameLength + localExtraLength;
+    const compressed = data.subarray(start, start + compressedSize);
+
+    if (method === 0) {
+      files.set(name, compressed.toString('utf8'));
+    } else if (method === 8) {
+      files.set(name, zlib.inflateRawSync(compressed).toString('utf8'));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
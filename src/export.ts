@@ -0,0 +1,587 @@
+import * as vscode from 'vscode';
+import { getAllComments, getCommentUri, getDisplayPath, getFolderStoreForComment } from './commentStore';
+import { formatReactions } from './reactions';
+import { compareDueDate, comparePriority, describeDetails, getPriorityLabel, isOverdue, PRIORITIES } from './threadDetails';
+import { CommentData, CommentPriority, CommentReplyData } from './types';
+
+export type ExportFormat = 'markdown' | 'markdownPerFile' | 'html' | 'csv' | 'json';
+export type ExportStatus = 'all' | 'unresolved' | 'resolved';
+export type ExportSort = 'position' | 'priority' | 'dueDate';
+
+export interface ExportFilter {
+  status: ExportStatus;
+  /** Display paths to include; all files when undefined */
+  files?: string[];
+  /** Root comment authors to include; all authors when undefined */
+  authors?: string[];
+  /** Assignees to include, with null for unassigned threads; everyone when undefined */
+  assignees?: (string | null)[];
+  /** Priorities to include, with null for threads without one; all when undefined */
+  priorities?: (CommentPriority | null)[];
+  /** Threads with any of these labels, with null for unlabelled threads; all when undefined */
+  labels?: (string | null)[];
+}
+
+/**
+ * A comment ready to be written out, with the details that need the
+ * workspace to work out.
+ */
+export interface ExportEntry {
+  comment: CommentData;
+  displayPath: string;
+  folderName?: string;
+  quotedText: string;
+}
+
+export function filterComments(comments: CommentData[], filter: ExportFilter): CommentData[] {
+  return comments.filter(comment => {
+    if (filter.status === 'resolved' && !comment.resolved) {
+      return false;
+    }
+    if (filter.status === 'unresolved' && comment.resolved) {
+      return false;
+    }
+    if (filter.files && !filter.files.includes(getDisplayPath(comment))) {
+      return false;
+    }
+    if (filter.authors && !filter.authors.includes(comment.author)) {
+      return false;
+    }
+    if (filter.assignees && !filter.assignees.includes(comment.assignee ?? null)) {
+      return false;
+    }
+    if (filter.priorities && !filter.priorities.includes(comment.priority ?? null)) {
+      return false;
+    }
+    if (filter.labels) {
+      const labels = comment.labels?.length ? comment.labels : [null];
+      if (!labels.some(label => filter.labels!.includes(label))) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+export async function createExportEntries(comments: CommentData[], sortBy: ExportSort = 'position'): Promise<ExportEntry[]> {
+  const entries: ExportEntry[] = [];
+  for (const comment of comments) {
+    entries.push({
+      comment,
+      displayPath: getDisplayPath(comment),
+      folderName: getFolderStoreForComment(comment)?.folder.name,
+      quotedText: await getQuotedText(comment)
+    });
+  }
+
+  // The document formats still gather each file's threads under one heading, in order of its first thread
+  const byDetails = (a: ExportEntry, b: ExportEntry) => {
+    switch (sortBy) {
+      case 'priority':
+        return comparePriority(a.comment, b.comment) || compareDueDate(a.comment, b.comment);
+      case 'dueDate':
+        return compareDueDate(a.comment, b.comment) || comparePriority(a.comment, b.comment);
+      default:
+        return 0;
+    }
+  };
+  return entries.sort((a, b) =>
+    byDetails(a, b) ||
+    a.displayPath.localeCompare(b.displayPath) ||
+    a.comment.range.start.line - b.comment.range.start.line ||
+    a.comment.range.start.character - b.comment.range.start.character
+  );
+}
+
+async function getQuotedText(comment: CommentData): Promise<string> {
+  // Orphaned and archived comments no longer point at their text; use what was anchored
+  if (comment.orphaned || comment.archived) {
+    return comment.anchor?.text ?? '';
+  }
+
+  // Try to get the exact selected text from the file
+  const uri = getCommentUri(comment);
+  if (uri) {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      const range = new vscode.Range(
+        comment.range.start.line,
+        comment.range.start.character,
+        comment.range.end.line,
+        comment.range.end.character
+      );
+      return document.getText(range);
+    } catch (error) {
+      // File might not exist anymore, fall back to the anchored text
+    }
+  }
+  return comment.anchor?.text ?? '';
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function groupByFile(entries: ExportEntry[]): Map<string, ExportEntry[]> {
+  const entriesByFile = new Map<string, ExportEntry[]>();
+  for (const entry of entries) {
+    if (!entriesByFile.has(entry.displayPath)) {
+      entriesByFile.set(entry.displayPath, []);
+    }
+    entriesByFile.get(entry.displayPath)!.push(entry);
+  }
+  return entriesByFile;
+}
+
+function formatMarkdownReactions(entry: CommentData | CommentReplyData): string {
+  const reactions = formatReactions(entry);
+  return reactions ? ` (${reactions})` : '';
+}
+
+function formatMarkdownEntry(entry: ExportEntry): string {
+  const { comment, quotedText } = entry;
+  const checkbox = comment.resolved ? '[x]' : '[ ]';
+  const line = comment.range.start.line + 1;
+
+  let markdown = `- ${checkbox} Line ${line} — ${comment.author}, ${formatTime(comment.timestamp)}`;
+  if (comment.orphaned) {
+    markdown += ' (orphaned)';
+  }
+  const details = describeDetails(comment);
+  if (details.length > 0) {
+    markdown += ` — ${details.join(', ')}`;
+  }
+  if (quotedText.trim()) {
+    // For multi-line quotes, prefix each line with '> '
+    const quotedLines = quotedText.split('\n').map(line => `> ${line}`).join('\n');
+    markdown += `\n${quotedLines}\n\n`;
+  } else {
+    markdown += '\n';
+  }
+  markdown += `${comment.text}${formatMarkdownReactions(comment)}\n`;
+
+  for (const reply of comment.replies ?? []) {
+    markdown += `  - ${reply.author} (${formatTime(reply.timestamp)}): ${reply.text}${formatMarkdownReactions(reply)}\n`;
+  }
+  return markdown + '\n';
+}
+
+export function formatMarkdown(entries: ExportEntry[]): string {
+  let markdown = '# Comments\n\n';
+
+  // Generate markdown for each file
+  for (const [filePath, fileEntries] of groupByFile(entries)) {
+    markdown += `## ${filePath}\n\n`;
+    for (const entry of fileEntries) {
+      markdown += formatMarkdownEntry(entry);
+    }
+  }
+  return markdown;
+}
+
+/**
+ * One Markdown document per source file, keyed by display path.
+ */
+export function formatMarkdownPerFile(entries: ExportEntry[]): Map<string, string> {
+  const documents = new Map<string, string>();
+  for (const [filePath, fileEntries] of groupByFile(entries)) {
+    documents.set(filePath, `# Comments on ${filePath}\n\n${fileEntries.map(formatMarkdownEntry).join('')}`);
+  }
+  return documents;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3em; }
+h2 { margin-top: 2rem; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 1.1rem; }
+.summary { color: #59636e; }
+.thread { border: 1px solid #d0d7de; border-radius: 6px; margin: 1rem 0; }
+.thread.resolved { opacity: .75; }
+.thread header { background: #f6f8fa; padding: .5rem .75rem; border-bottom: 1px solid #d0d7de; border-radius: 6px 6px 0 0; font-size: .9rem; }
+.status { display: inline-block; border-radius: 1em; padding: 0 .6em; font-size: .8rem; font-weight: 600; color: #fff; background: #bf8700; }
+.resolved .status { background: #1a7f37; }
+.flag { color: #cf222e; font-size: .8rem; margin-left: .5em; }
+.detail { display: inline-block; border: 1px solid #d0d7de; border-radius: 1em; padding: 0 .6em; font-size: .8rem; margin-left: .5em; }
+.priority-high { border-color: #cf222e; color: #cf222e; }
+.priority-medium { border-color: #bc4c00; color: #bc4c00; }
+.priority-low { border-color: #0969da; color: #0969da; }
+.overdue { background: #ffebe9; }
+pre { margin: 0; padding: .5rem .75rem; background: #fff8c5; white-space: pre-wrap; border-bottom: 1px solid #d0d7de; }
+.entry { padding: .5rem .75rem; }
+.entry + .entry { border-top: 1px dashed #d0d7de; margin-left: 1.5rem; }
+.meta { color: #59636e; font-size: .85rem; }
+.text { white-space: pre-wrap; margin-top: .25rem; }
+.reactions { margin-top: .25rem; font-size: .85rem; }
+`;
+
+function formatHtmlDetails(comment: CommentData): string {
+  const details: string[] = [];
+  if (comment.priority) {
+    details.push(`<span class="detail priority-${comment.priority}">${getPriorityLabel(comment.priority)} priority</span>`);
+  }
+  if (comment.assignee) {
+    details.push(`<span class="detail">Assigned to ${escapeHtml(comment.assignee)}</span>`);
+  }
+  if (comment.dueDate) {
+    details.push(isOverdue(comment)
+      ? `<span class="detail overdue">Overdue since ${escapeHtml(comment.dueDate)}</span>`
+      : `<span class="detail">Due ${escapeHtml(comment.dueDate)}</span>`);
+  }
+  for (const label of comment.labels ?? []) {
+    details.push(`<span class="detail">#${escapeHtml(label)}</span>`);
+  }
+  return details.join('');
+}
+
+function formatHtmlReactions(entry: CommentData | CommentReplyData): string {
+  const reactions = formatReactions(entry);
+  return reactions ? `
+        <div class="reactions">${escapeHtml(reactions)}</div>` : '';
+}
+
+export function formatHtml(entries: ExportEntry[], title: string): string {
+  const resolvedCount = entries.filter(e => e.comment.resolved).length;
+  const sections: string[] = [];
+
+  for (const [filePath, fileEntries] of groupByFile(entries)) {
+    const threads = fileEntries.map(({ comment, quotedText }) => {
+      const line = comment.range.start.line + 1;
+      const endLine = comment.range.end.line + 1;
+      const flags = [comment.orphaned ? 'orphaned' : '', comment.archived ? 'file deleted' : '']
+        .filter(Boolean)
+        .map(flag => `<span class="flag">${flag}</span>`)
+        .join('') + formatHtmlDetails(comment);
+      const replies = (comment.replies ?? []).map(reply => `
+      <div class="entry">
+        <div class="meta"><strong>${escapeHtml(reply.author)}</strong> · ${escapeHtml(formatTime(reply.timestamp))}</div>
+        <div class="text">${escapeHtml(reply.text)}</div>${formatHtmlReactions(reply)}
+      </div>`).join('');
+
+      return `
+    <article class="thread${comment.resolved ? ' resolved' : ''}">
+      <header><span class="status">${comment.resolved ? 'Resolved' : 'Open'}</span> Line ${line}${endLine !== line ? `–${endLine}` : ''}${flags}</header>
+      ${quotedText.trim() ? `<pre>${escapeHtml(quotedText)}</pre>` : ''}
+      <div class="entry">
+        <div class="meta"><strong>${escapeHtml(comment.author)}</strong> · ${escapeHtml(formatTime(comment.timestamp))}</div>
+        <div class="text">${escapeHtml(comment.text)}</div>${formatHtmlReactions(comment)}
+      </div>${replies}
+    </article>`;
+    }).join('');
+
+    sections.push(`
+  <section>
+    <h2>${escapeHtml(filePath)}</h2>${threads}
+  </section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="summary">${entries.length} comment thread${entries.length === 1 ? '' : 's'} (${entries.length - resolvedCount} open, ${resolvedCount} resolved) · exported ${escapeHtml(new Date().toLocaleString())}</p>${sections.join('')}
+</body>
+</html>
+`;
+}
+
+function csvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per comment and per reply, so threads can be rebuilt from the
+ * `thread_id` column.
+ */
+export function formatCsv(entries: ExportEntry[]): string {
+  const header = [
+    'thread_id', 'type', 'file', 'start_line', 'end_line', 'resolved',
+    'assignee', 'priority', 'labels', 'due_date',
+    'author', 'timestamp', 'text', 'quoted_text', 'reactions'
+  ];
+  const rows = [header.join(',')];
+
+  for (const { comment, displayPath, quotedText } of entries) {
+    const thread = [
+      displayPath, comment.range.start.line + 1, comment.range.end.line + 1, !!comment.resolved,
+      comment.assignee, comment.priority, comment.labels?.join(';'), comment.dueDate
+    ];
+    rows.push([comment.id, 'comment', ...thread, comment.author, comment.timestamp, comment.text, quotedText, formatReactions(comment, ';')].map(csvField).join(','));
+    for (const reply of comment.replies ?? []) {
+      rows.push([comment.id, 'reply', ...thread, reply.author, reply.timestamp, reply.text, '', formatReactions(reply, ';')].map(csvField).join(','));
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+export function formatJson(entries: ExportEntry[]): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      comments: entries.map(({ comment, folderName, quotedText }) => ({ ...comment, workspaceFolder: folderName, quotedText }))
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * The original quick export: Markdown copied to the clipboard and opened in an
+ * untitled editor.
+ */
+export async function exportToMarkdownPreview() {
+  const allComments = getAllComments();
+  if (allComments.length === 0) {
+    vscode.window.showInformationMessage('No comments to export.');
+    return;
+  }
+
+  const markdown = formatMarkdown(await createExportEntries(allComments));
+
+  // Copy to clipboard and show preview
+  await vscode.env.clipboard.writeText(markdown);
+
+  // Open in a new untitled document
+  const doc = await vscode.workspace.openTextDocument({
+    content: markdown,
+    language: 'markdown'
+  });
+  await vscode.window.showTextDocument(doc);
+
+  vscode.window.showInformationMessage('Comments exported to markdown and copied to clipboard!');
+}
+
+const FORMAT_DETAILS: Record<Exclude<ExportFormat, 'markdownPerFile'>, { extension: string; label: string }> = {
+  markdown: { extension: 'md', label: 'Markdown' },
+  html: { extension: 'html', label: 'HTML' },
+  csv: { extension: 'csv', label: 'CSV' },
+  json: { extension: 'json', label: 'JSON' }
+};
+
+/**
+ * Export comments to disk in a chosen format, after asking which comments to
+ * include and where to write them.
+ */
+export async function exportComments() {
+  const allComments = getAllComments();
+  if (allComments.length === 0) {
+    vscode.window.showInformationMessage('No comments to export.');
+    return;
+  }
+
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: 'HTML report', description: 'Self-contained page with quoted text and threads', value: 'html' as const },
+      { label: 'Markdown', description: 'Single document', value: 'markdown' as const },
+      { label: 'Markdown, one file per source file', description: 'Written to a folder', value: 'markdownPerFile' as const },
+      { label: 'CSV', description: 'One row per comment or reply, for spreadsheets', value: 'csv' as const },
+      { label: 'JSON', description: 'Full comment data', value: 'json' as const }
+    ],
+    { placeHolder: 'Export format' }
+  );
+  if (!format) {
+    return;
+  }
+
+  const filter = await chooseExportFilter(allComments);
+  if (!filter) {
+    return;
+  }
+
+  const comments = filterComments(allComments, filter);
+  if (comments.length === 0) {
+    vscode.window.showInformationMessage('No comments match the selected filters.');
+    return;
+  }
+
+  const sortBy = await chooseExportSort(comments);
+  if (!sortBy) {
+    return;
+  }
+
+  const entries = await createExportEntries(comments, sortBy);
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+
+  if (format.value === 'markdownPerFile') {
+    const folder = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: 'Export Here',
+      defaultUri: defaultFolder
+    });
+    if (!folder || folder.length === 0) {
+      return;
+    }
+
+    const documents = formatMarkdownPerFile(entries);
+    for (const [filePath, markdown] of documents) {
+      const target = vscode.Uri.joinPath(folder[0], ...`${filePath}.comments.md`.split('/'));
+      await vscode.workspace.fs.writeFile(target, Buffer.from(markdown, 'utf8'));
+    }
+    vscode.window.showInformationMessage(`Exported comments for ${documents.size} file${documents.size === 1 ? '' : 's'}.`);
+    return;
+  }
+
+  const details = FORMAT_DETAILS[format.value];
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, `comments.${details.extension}`) : undefined,
+    filters: { [details.label]: [details.extension] },
+    saveLabel: 'Export'
+  });
+  if (!target) {
+    return;
+  }
+
+  let content: string;
+  switch (format.value) {
+    case 'html':
+      content = formatHtml(entries, `Review comments${vscode.workspace.name ? ` — ${vscode.workspace.name}` : ''}`);
+      break;
+    case 'csv':
+      content = formatCsv(entries);
+      break;
+    case 'json':
+      content = formatJson(entries);
+      break;
+    default:
+      content = formatMarkdown(entries);
+  }
+
+  await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+
+  const action = await vscode.window.showInformationMessage(
+    `Exported ${entries.length} comment${entries.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(target)}`,
+    'Open'
+  );
+  if (action === 'Open') {
+    await vscode.commands.executeCommand('vscode.open', target);
+  }
+}
+
+async function chooseExportFilter(comments: CommentData[]): Promise<ExportFilter | undefined> {
+  const status = await vscode.window.showQuickPick(
+    [
+      { label: 'All comments', value: 'all' as const },
+      { label: 'Unresolved only', value: 'unresolved' as const },
+      { label: 'Resolved only', value: 'resolved' as const }
+    ],
+    { placeHolder: 'Which comments should be exported?' }
+  );
+  if (!status) {
+    return undefined;
+  }
+
+  const files = [...new Set(comments.map(getDisplayPath))].sort();
+  const selectedFiles = await pickSubset(files, 'Files to include');
+  if (!selectedFiles) {
+    return undefined;
+  }
+
+  const authors = [...new Set(comments.map(c => c.author))].sort();
+  const selectedAuthors = await pickSubset(authors, 'Comment authors to include');
+  if (!selectedAuthors) {
+    return undefined;
+  }
+
+  // Threads without a value are picked by a label of their own and stored as null
+  const assignees = await pickDetailSubset(comments.map(c => c.assignee), name => name, 'Unassigned', 'Assignees to include');
+  if (!assignees) {
+    return undefined;
+  }
+
+  const priorities = await pickDetailSubset(
+    [...PRIORITIES.map(p => p.value), undefined].filter(value => comments.some(c => c.priority === value)),
+    value => `${getPriorityLabel(value)} priority`,
+    'No priority',
+    'Priorities to include'
+  );
+  if (!priorities) {
+    return undefined;
+  }
+
+  const labels = await pickDetailSubset(
+    comments.flatMap(c => c.labels?.length ? c.labels : [undefined]),
+    label => `#${label}`,
+    'No labels',
+    'Labels to include'
+  );
+  if (!labels) {
+    return undefined;
+  }
+
+  return {
+    status: status.value,
+    files: selectedFiles.length === files.length ? undefined : selectedFiles,
+    authors: selectedAuthors.length === authors.length ? undefined : selectedAuthors,
+    assignees: assignees.all ? undefined : assignees.values,
+    priorities: priorities.all ? undefined : priorities.values,
+    labels: labels.all ? undefined : labels.values
+  };
+}
+
+async function chooseExportSort(comments: CommentData[]): Promise<ExportSort | undefined> {
+  if (!comments.some(c => c.priority || c.dueDate)) {
+    return 'position';
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: 'Position in file', value: 'position' as const },
+      { label: 'Priority', value: 'priority' as const },
+      { label: 'Due date', value: 'dueDate' as const }
+    ],
+    { placeHolder: 'Order threads by' }
+  );
+  return selected?.value;
+}
+
+/**
+ * `pickSubset` over the distinct values of a thread detail, where undefined
+ * stands for threads without it.
+ */
+async function pickDetailSubset<T extends string>(
+  values: (T | undefined)[],
+  describe: (value: T) => string,
+  noneLabel: string,
+  placeHolder: string
+): Promise<{ values: (T | null)[]; all: boolean } | undefined> {
+  const distinct = [...new Set(values)];
+  const options = new Map<string, T | null>(distinct.map(value => [value === undefined ? noneLabel : describe(value), value ?? null]));
+  const selected = await pickSubset([...options.keys()], placeHolder);
+  if (!selected) {
+    return undefined;
+  }
+  return { values: selected.map(label => options.get(label)!), all: selected.length === options.size };
+}
+
+// Multi-select with everything picked to start with; skipped when there is only one choice
+async function pickSubset(values: string[], placeHolder: string): Promise<string[] | undefined> {
+  if (values.length < 2) {
+    return values;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    values.map(value => ({ label: value, picked: true })),
+    { placeHolder, canPickMany: true }
+  );
+  if (!selected || selected.length === 0) {
+    return undefined;
+  }
+  return selected.map(item => item.label);
+}
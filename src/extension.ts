@@ -1,40 +1,104 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
-
-interface CommentData {
-  id: string;
-  author: string;
-  timestamp: string;
-  text: string;
-  filePath: string;
-  range: {
-    start: { line: number; character: number };
-    end: { line: number; character: number };
-  };
-  replies?: Array<{
-    id: string;
-    author: string;
-    timestamp: string;
-    text: string;
-  }>;
-  resolved?: boolean;
-}
-
-interface CommentStore {
-  comments: CommentData[];
-}
+import { formatActivity, getActivityAuthor, recordActivity } from './activity';
+import { CommentAnchor, createAnchor, findAnchor, transformRange } from './anchoring';
+import {
+  archiveCommentsForDeletedFile,
+  closeAllFolderStores,
+  closeFolderStore,
+  findComment,
+  flushComments,
+  FolderCommentStore,
+  getAllComments,
+  getBranchScopedComments,
+  getCommentsForUri,
+  getCommentUri,
+  getDeletedComments,
+  getFolderStoreForUri,
+  getFolderStores,
+  getRelativePath,
+  moveCommentToFile,
+  onDidReloadComments,
+  onDidSaveComments,
+  openFolderStore,
+  relocateMisplacedComments,
+  removeComment,
+  renameCommentFiles,
+  saveComments
+} from './commentStore';
+import {
+  chooseFilters,
+  chooseGrouping,
+  chooseSortOrder,
+  chooseStatusFilter,
+  CommentsTreeProvider,
+  CommentTreeItem,
+  toggleMentionsFilter
+} from './commentsTree';
+import { disposeCommentDecorations, initCommentDecorations, resetCommentDecorations, updateCommentDecorations } from './decorations';
+import { DeletedEntry, DeletionHistory } from './deletionHistory';
+import { exportComments, exportToMarkdownPreview } from './export';
+import {
+  getCommentRevision,
+  getCurrentBranch,
+  getGitRevision,
+  GIT_REVISION_SCHEME,
+  GitRevisionContentProvider,
+  isOutdated,
+  onDidChangeBranch,
+  openRevisionDiff,
+  shortCommit,
+  updateOutdatedComments,
+  watchGitBranches
+} from './git';
+import { authorFields, getAuthorIdentity, getKnownIdentity, watchIdentity } from './identity';
+import { createId } from './ids';
+import { importComments } from './import';
+import {
+  canStoreInline,
+  convertCommentStorage,
+  disposeMarkupDecorations,
+  isInlineEnabled,
+  syncInlineComments,
+  updateMarkupDecorations,
+  writeInlineComments
+} from './inlineComments';
+import { hasReacted, REACTIONS, toggleReaction } from './reactions';
+import { linkPullRequest, markReviewReplyDeleted, syncWithPullRequest, unmarkReviewReplyDeleted } from './reviewSync';
+import { searchCommentsInteractive, SearchResultsProvider } from './search';
+import { ShardedStorage, SingleFileStorage } from './storage';
+import {
+  applySuggestionEdit,
+  extractSuggestion,
+  formatSuggestion,
+  isPendingSuggestion,
+  isStaleSuggestion,
+  updateStaleSuggestions
+} from './suggestions';
+import { getCurrentMember, isMentioned, MentionCompletionProvider, seedRosterFromGit, updateMentions, watchRosters } from './team';
+import { describeDetails, editThreadDetails } from './threadDetails';
+import { CommentData, CommentReplyData, CommentSuggestion } from './types';
 
 let commentController: vscode.CommentController;
-let commentStore: CommentStore = { comments: [] };
 const commentThreads = new Map<string, vscode.CommentThread>();
-let saveTimeout: NodeJS.Timeout | undefined;
+// Typing moves comments on every keystroke, so those changes are saved less eagerly
+const EDIT_SAVE_DELAY = 500;
 let commentsTreeProvider: CommentsTreeProvider;
-
-export function activate(context: vscode.ExtensionContext) {
+let searchResultsProvider: SearchResultsProvider;
+let deletionHistory: DeletionHistory;
+// Comments and replies mentioning the current user that they have already been told about
+let seenMentions = new Set<string>();
+// Suggestions being written in the comment editor, and where they will go once posted
+const suggestionDrafts = new Map<vscode.CommentThread, { editor: vscode.TextEditor; folderStore: FolderCommentStore }>();
+// Threads whose suggestion is being applied, which move onto the new text themselves rather than being re-anchored
+const applyingSuggestions = new Set<string>();
+
+export async function activate(context: vscode.ExtensionContext) {
   console.log('Comment Tracker extension is now active!');
 
   // Create comment controller
+  deletionHistory = new DeletionHistory(context.workspaceState);
+  initCommentDecorations(context.extensionUri);
+
   commentController = vscode.comments.createCommentController(
     'comment-tracker',
     'Comment Tracker'
@@ -55,24 +119,232 @@ export function activate(context: vscode.ExtensionContext) {
     }
   };
 
+  // Toggle emoji reactions picked on a comment
+  commentController.reactionHandler = async (comment, reaction) => {
+    toggleCommentReaction(comment, reaction.label);
+  };
+
   context.subscriptions.push(commentController);
 
-  // Load existing comments
-  loadComments();
+  // Rosters come first, since mentions and who the current user is are worked out from them
+  context.subscriptions.push(await watchRosters());
+
+  // Load existing comments, one store per workspace folder
+  await Promise.all((vscode.workspace.workspaceFolders ?? []).map(openFolderStore));
+  if (await relocateMisplacedComments(context.workspaceState)) {
+    saveComments();
+  }
+  vscode.workspace.textDocuments.forEach(syncInlineComments);
   restoreCommentThreads();
+  seenMentions = new Set(findMentionsOfMe().keys());
+  context.subscriptions.push({ dispose: () => closeAllFolderStores() });
+
+  // Re-anchor comments in documents that are already open, and in any that open later
+  vscode.workspace.textDocuments.forEach(reanchorComments);
+  vscode.workspace.textDocuments.forEach(document => checkOutdatedComments(document.uri));
+  vscode.workspace.textDocuments.forEach(checkSuggestions);
 
   // Listen for document changes to update comment positions
   const docChangeListener = vscode.workspace.onDidChangeTextDocument((e) => {
     updateCommentPositionsFromEdits(e);
+
+    // Inline comments are whatever the document says they are
+    if (e.contentChanges.length > 0 && syncInlineComments(e.document)) {
+      recreateFileThreads(e.document.uri);
+      commentsTreeProvider?.refresh();
+    }
+    checkSuggestions(e.document);
+    vscode.window.visibleTextEditors
+      .filter(editor => editor.document === e.document)
+      .forEach(editor => {
+        updateMarkupDecorations(editor);
+        updateCommentDecorations(editor);
+      });
+  });
+
+  const docOpenListener = vscode.workspace.onDidOpenTextDocument((document) => {
+    if (syncInlineComments(document)) {
+      recreateFileThreads(document.uri);
+      commentsTreeProvider?.refresh();
+    }
+    reanchorComments(document);
+    checkOutdatedComments(document.uri);
+    checkSuggestions(document);
+  });
+
+  // A suggestion being written has nothing to apply to once its document is closed
+  const docCloseListener = vscode.workspace.onDidCloseTextDocument((document) => {
+    [...suggestionDrafts.keys()]
+      .filter(thread => thread.uri.toString() === document.uri.toString())
+      .forEach(discardSuggestionDraft);
+  });
+
+  // The lines that differ from each comment's commit change whenever the file is written
+  const docSaveListener = vscode.workspace.onDidSaveTextDocument((document) => {
+    checkOutdatedComments(document.uri);
+  });
+
+  // Reveal hidden comment markup on the lines being edited
+  const editorListener = vscode.window.onDidChangeActiveTextEditor((editor) => {
+    if (editor) {
+      updateMarkupDecorations(editor);
+    }
+  });
+  const selectionListener = vscode.window.onDidChangeTextEditorSelection((e) => {
+    updateMarkupDecorations(e.textEditor);
+  });
+  vscode.window.visibleTextEditors.forEach(updateMarkupDecorations);
+
+  // Highlight commented text in every editor that comes into view
+  const visibleEditorsListener = vscode.window.onDidChangeVisibleTextEditors((editors) => {
+    editors.forEach(updateCommentDecorations);
+  });
+  vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+
+  context.subscriptions.push(
+    docChangeListener,
+    docOpenListener,
+    docCloseListener,
+    docSaveListener,
+    editorListener,
+    selectionListener,
+    visibleEditorsListener,
+    { dispose: disposeMarkupDecorations },
+    { dispose: disposeCommentDecorations }
+  );
+
+  const reloadListener = onDidReloadComments(async () => {
+    rebuildCommentThreads();
+    commentsTreeProvider?.refresh();
+    searchResultsProvider?.refresh();
+    vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+    vscode.workspace.textDocuments.forEach(document => checkOutdatedComments(document.uri));
+    vscode.workspace.textDocuments.forEach(checkSuggestions);
+    await notifyNewMentions();
+  });
+
+  const saveListener = onDidSaveComments(() => {
+    // Refresh tree views and highlights
+    commentsTreeProvider?.refresh();
+    searchResultsProvider?.refresh();
+    vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+  });
+
+  const configListener = vscode.workspace.onDidChangeConfiguration(async (e) => {
+    const changedFolders = getFolderStores()
+      .map(folderStore => folderStore.folder)
+      .filter(folder => e.affectsConfiguration('commentTracker.storageFormat', folder.uri));
+
+    if (changedFolders.length > 0) {
+      // Start afresh from the newly selected location
+      await Promise.all(changedFolders.map(openFolderStore));
+    }
+
+    if (e.affectsConfiguration('commentTracker.showGutterIcons') || e.affectsConfiguration('commentTracker.showInOverviewRuler')) {
+      resetCommentDecorations();
+    } else if (e.affectsConfiguration('commentTracker.highlightComments')) {
+      vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+    }
+
+    const inlineChanged = e.affectsConfiguration('commentTracker.inlineCriticMarkup');
+    if (changedFolders.length > 0 || inlineChanged) {
+      vscode.workspace.textDocuments.forEach(syncInlineComments);
+      vscode.window.visibleTextEditors.forEach(updateMarkupDecorations);
+      rebuildCommentThreads();
+      commentsTreeProvider?.refresh();
+      vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+    }
+  });
+
+  // Follow files that are renamed, moved or deleted from within VS Code
+  const renameListener = vscode.workspace.onDidRenameFiles((e) => {
+    let changed = false;
+    for (const file of e.files) {
+      changed = renameCommentFiles(file.oldUri, file.newUri) || changed;
+    }
+    if (changed) {
+      rebuildCommentThreads();
+      saveComments();
+    }
+  });
+
+  const deleteListener = vscode.workspace.onDidDeleteFiles((e) => {
+    let changed = false;
+    for (const uri of e.files) {
+      changed = archiveCommentsForDeletedFile(uri) || changed;
+    }
+    if (changed) {
+      rebuildCommentThreads();
+      saveComments();
+    }
+  });
+
+  const foldersListener = vscode.workspace.onDidChangeWorkspaceFolders(async (e) => {
+    // Write anything pending for folders that are going away before closing them
+    if (e.removed.length > 0) {
+      await flushComments();
+    }
+    e.removed.forEach(closeFolderStore);
+    await Promise.all(e.added.map(openFolderStore));
+    if (await relocateMisplacedComments(context.workspaceState)) {
+      saveComments();
+    }
+    rebuildCommentThreads();
+    commentsTreeProvider?.refresh();
   });
 
-  context.subscriptions.push(docChangeListener);
+  // Show the comments scoped to whichever branch is checked out
+  const branchListener = onDidChangeBranch(() => {
+    showCommentsInScope();
+  });
+  watchGitBranches().then(
+    watcher => context.subscriptions.push(watcher),
+    error => console.error('Failed to follow Git branches:', error)
+  );
+
+  // Work out who new comments are by ahead of the first one
+  context.subscriptions.push(watchIdentity());
+
+  context.subscriptions.push(branchListener, reloadListener, saveListener, configListener, renameListener, deleteListener, foldersListener);
+
+  // Suggest team members after @ in the comment editor
+  const mentionCompletion = vscode.languages.registerCompletionItemProvider(
+    { scheme: 'comment' },
+    new MentionCompletionProvider(),
+    '@'
+  );
+  context.subscriptions.push(mentionCompletion);
+
+  // Files as they were at a comment's commit, for comparing with the current file
+  const gitRevisionProvider = vscode.workspace.registerTextDocumentContentProvider(
+    GIT_REVISION_SCHEME,
+    new GitRevisionContentProvider()
+  );
+  context.subscriptions.push(gitRevisionProvider);
 
   // Register commands
   const addCommentCmd = vscode.commands.registerCommand('comment-tracker.addComment', async () => {
     await addComment();
   });
 
+  const suggestEditCmd = vscode.commands.registerCommand('comment-tracker.suggestEdit', () => {
+    suggestEdit();
+  });
+
+  const applySuggestionCmd = vscode.commands.registerCommand(
+    'comment-tracker.applySuggestion',
+    async (comment: vscode.Comment) => {
+      await decideSuggestion(comment, 'applied');
+    }
+  );
+
+  const rejectSuggestionCmd = vscode.commands.registerCommand(
+    'comment-tracker.rejectSuggestion',
+    async (comment: vscode.Comment) => {
+      await decideSuggestion(comment, 'rejected');
+    }
+  );
+
   const viewCommentsCmd = vscode.commands.registerCommand('comment-tracker.viewComments', async () => {
     await viewComments();
   });
@@ -109,6 +381,20 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  const editThreadDetailsCmd = vscode.commands.registerCommand(
+    'comment-tracker.editThreadDetails',
+    async (thread: vscode.CommentThread) => {
+      await editThreadDetailsById(thread.contextValue);
+    }
+  );
+
+  const compareWithRevisionCmd = vscode.commands.registerCommand(
+    'comment-tracker.compareWithCommentRevision',
+    async (thread: vscode.CommentThread) => {
+      await compareWithCommentRevision(thread.contextValue);
+    }
+  );
+
   const deleteReplyCmd = vscode.commands.registerCommand(
     'comment-tracker.deleteReply',
     async () => {
@@ -116,241 +402,436 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  // Register tree view for unresolved comments
-  commentsTreeProvider = new CommentsTreeProvider();
-  vscode.window.registerTreeDataProvider('commentTrackerView', commentsTreeProvider);
+  const editCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.editComment',
+    (comment: vscode.Comment) => {
+      editComment(comment);
+    }
+  );
+
+  const saveCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.saveComment',
+    async (comment: vscode.Comment) => {
+      await saveCommentEdit(comment);
+    }
+  );
+
+  const cancelEditCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.cancelEditComment',
+    (comment: vscode.Comment) => {
+      cancelCommentEdit(comment);
+    }
+  );
+
+  // Register tree view for browsing and filtering comments
+  commentsTreeProvider = new CommentsTreeProvider(context.workspaceState);
+  const commentsTreeView = vscode.window.createTreeView('commentTrackerView', {
+    treeDataProvider: commentsTreeProvider,
+    showCollapseAll: true
+  });
+  commentsTreeProvider.setTreeView(commentsTreeView);
+
+  const treeResolveCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeResolveComment',
+    async (item: CommentTreeItem) => {
+      const thread = commentThreads.get(item.commentData.id);
+      if (thread) {
+        await resolveCommentThread(thread, true);
+      }
+    }
+  );
+
+  const treeUnresolveCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeUnresolveComment',
+    async (item: CommentTreeItem) => {
+      const thread = commentThreads.get(item.commentData.id);
+      if (thread) {
+        await resolveCommentThread(thread, false);
+      }
+    }
+  );
+
+  const treeReplyCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeReplyToComment',
+    async (item: CommentTreeItem) => {
+      const thread = commentThreads.get(item.commentData.id);
+      if (!thread) {
+        return;
+      }
+
+      const text = await vscode.window.showInputBox({
+        prompt: `Reply to ${item.commentData.author}`,
+        placeHolder: 'Type your reply here'
+      });
+      if (text) {
+        await replyToComment({ thread, text });
+      }
+    }
+  );
+
+  const treeReactCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeReactToComment',
+    async (item: CommentTreeItem) => {
+      await reactToCommentById(item.commentData.id);
+    }
+  );
+
+  const treeEditDetailsCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeEditThreadDetails',
+    async (item: CommentTreeItem) => {
+      await editThreadDetailsById(item.commentData.id);
+    }
+  );
+
+  const treeCompareWithRevisionCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeCompareWithCommentRevision',
+    async (item: CommentTreeItem) => {
+      await compareWithCommentRevision(item.commentData.id);
+    }
+  );
+
+  const treeDeleteCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeDeleteComment',
+    async (item: CommentTreeItem) => {
+      await deleteCommentById(item.commentData.id);
+    }
+  );
+
+  const viewStatusCmd = vscode.commands.registerCommand('comment-tracker.setCommentStatusFilter', async () => {
+    await chooseStatusFilter(commentsTreeProvider);
+  });
+
+  const viewFilterCmd = vscode.commands.registerCommand('comment-tracker.filterComments', async () => {
+    await chooseFilters(commentsTreeProvider);
+  });
+
+  const viewClearFiltersCmd = vscode.commands.registerCommand('comment-tracker.clearCommentFilters', () => {
+    commentsTreeProvider.updateOptions({ filters: {} });
+  });
+
+  const viewMentionsCmd = vscode.commands.registerCommand('comment-tracker.showMyMentions', () => {
+    toggleMentionsFilter(commentsTreeProvider);
+  });
+
+  const viewGroupCmd = vscode.commands.registerCommand('comment-tracker.groupComments', async () => {
+    await chooseGrouping(commentsTreeProvider);
+  });
+
+  const viewSortCmd = vscode.commands.registerCommand('comment-tracker.sortComments', async () => {
+    await chooseSortOrder(commentsTreeProvider);
+  });
+
+  // Search results have their own view, shown once there has been a search
+  searchResultsProvider = new SearchResultsProvider();
+  const searchResultsView = vscode.window.createTreeView('commentTrackerSearchView', {
+    treeDataProvider: searchResultsProvider
+  });
+  searchResultsProvider.setTreeView(searchResultsView);
+
+  const searchCmd = vscode.commands.registerCommand('comment-tracker.searchComments', async () => {
+    await searchCommentsInteractive(searchResultsProvider);
+  });
+
+  const clearSearchCmd = vscode.commands.registerCommand('comment-tracker.clearSearchResults', () => {
+    searchResultsProvider.showResults(undefined);
+  });
+
+  context.subscriptions.push(
+    commentsTreeView,
+    treeResolveCmd,
+    treeUnresolveCmd,
+    treeReplyCmd,
+    treeReactCmd,
+    treeEditDetailsCmd,
+    treeCompareWithRevisionCmd,
+    treeDeleteCmd,
+    viewStatusCmd,
+    viewFilterCmd,
+    viewClearFiltersCmd,
+    viewMentionsCmd,
+    viewGroupCmd,
+    viewSortCmd,
+    searchResultsView,
+    searchCmd,
+    clearSearchCmd
+  );
 
   // Command to navigate to a comment from the tree view
   const navigateToCommentCmd = vscode.commands.registerCommand(
     'comment-tracker.navigateToComment',
     async (commentData: CommentData) => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        return;
-      }
+      await revealComment(commentData);
+    }
+  );
 
-      const uri = vscode.Uri.joinPath(workspaceFolder.uri, commentData.filePath);
-      const document = await vscode.workspace.openTextDocument(uri);
-      const editor = await vscode.window.showTextDocument(document);
+  const nextCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.nextComment',
+    async () => {
+      await goToUnresolvedComment(1);
+    }
+  );
 
-      const position = new vscode.Position(commentData.range.start.line, commentData.range.start.character);
-      editor.selection = new vscode.Selection(position, position);
-      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+  const previousCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.previousComment',
+    async () => {
+      await goToUnresolvedComment(-1);
     }
   );
 
   const exportToMarkdownCmd = vscode.commands.registerCommand(
     'comment-tracker.exportToMarkdown',
     async () => {
-      if (commentStore.comments.length === 0) {
-        vscode.window.showInformationMessage('No comments to export.');
-        return;
-      }
+      await exportToMarkdownPreview();
+    }
+  );
+
+  const exportCommentsCmd = vscode.commands.registerCommand(
+    'comment-tracker.exportComments',
+    async () => {
+      await exportComments();
+    }
+  );
 
-      let markdown = '# Comments\n\n';
+  const restoreArchivedCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.restoreArchivedComment',
+    async (item: CommentTreeItem) => {
+      await restoreArchivedComment(item.commentData);
+    }
+  );
 
-      // Group comments by file
-      const commentsByFile = new Map<string, CommentData[]>();
-      for (const comment of commentStore.comments) {
-        if (!commentsByFile.has(comment.filePath)) {
-          commentsByFile.set(comment.filePath, []);
-        }
-        commentsByFile.get(comment.filePath)!.push(comment);
+  const restoreDeletedCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.restoreDeletedComment',
+    async () => {
+      await chooseDeletedEntryToRestore();
+    }
+  );
+
+  const treeRestoreDeletedCmd = vscode.commands.registerCommand(
+    'comment-tracker.treeRestoreDeletedComment',
+    async (item: CommentTreeItem) => {
+      await restoreDeletedComment(item.commentData);
+    }
+  );
+
+  const purgeDeletedCommentCmd = vscode.commands.registerCommand(
+    'comment-tracker.purgeDeletedComment',
+    async (item: CommentTreeItem) => {
+      await purgeDeletedComments([item.commentData]);
+    }
+  );
+
+  const emptyTrashCmd = vscode.commands.registerCommand(
+    'comment-tracker.emptyTrash',
+    async () => {
+      await purgeDeletedComments(getDeletedComments());
+    }
+  );
+
+  const importCommentsCmd = vscode.commands.registerCommand(
+    'comment-tracker.importComments',
+    async () => {
+      if (await importComments() > 0) {
+        rebuildCommentThreads();
       }
+    }
+  );
 
-      // Generate markdown for each file
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-
-      for (const [filePath, comments] of commentsByFile) {
-        markdown += `## ${filePath}\n\n`;
-
-        for (const comment of comments) {
-          const checkbox = comment.resolved ? '[x]' : '[ ]';
-          const line = comment.range.start.line + 1;
-
-          // Try to get the exact selected text from the file
-          let quotedText = '';
-          if (workspaceFolder) {
-            try {
-              const uri = vscode.Uri.joinPath(workspaceFolder.uri, comment.filePath);
-              const document = await vscode.workspace.openTextDocument(uri);
-              const range = new vscode.Range(
-                comment.range.start.line,
-                comment.range.start.character,
-                comment.range.end.line,
-                comment.range.end.character
-              );
-              quotedText = document.getText(range);
-            } catch (error) {
-              // File might not exist anymore, skip quoted text
-            }
-          }
-
-          markdown += `- ${checkbox} Line ${line}`;
-          if (quotedText.trim()) {
-            // For multi-line quotes, prefix each line with '> '
-            const quotedLines = quotedText.split('\n').map(line => `> ${line}`).join('\n');
-            markdown += `\n${quotedLines}\n\n`;
-          } else {
-            markdown += '\n';
-          }
-          markdown += `${comment.text}\n`;
-
-          if (comment.replies && comment.replies.length > 0) {
-            for (const reply of comment.replies) {
-              markdown += `  - ${reply.author}: ${reply.text}\n`;
-            }
-          }
-          markdown += '\n';
-        }
+  const convertStorageCmd = vscode.commands.registerCommand(
+    'comment-tracker.convertCommentStorage',
+    async () => {
+      if (await convertCommentStorage()) {
+        rebuildCommentThreads();
       }
+    }
+  );
 
-      // Copy to clipboard and show preview
-      await vscode.env.clipboard.writeText(markdown);
+  const seedRosterCmd = vscode.commands.registerCommand(
+    'comment-tracker.seedTeamRoster',
+    async () => {
+      await seedRosterFromGit();
+    }
+  );
 
-      // Open in a new untitled document
-      const doc = await vscode.workspace.openTextDocument({
-        content: markdown,
-        language: 'markdown'
-      });
-      await vscode.window.showTextDocument(doc);
+  const syncPullRequestCmd = vscode.commands.registerCommand(
+    'comment-tracker.syncPullRequest',
+    async () => {
+      if (await syncWithPullRequest(context.workspaceState)) {
+        rebuildCommentThreads();
+        commentsTreeProvider?.refresh();
+      }
+    }
+  );
 
-      vscode.window.showInformationMessage('Comments exported to markdown and copied to clipboard!');
+  const linkPullRequestCmd = vscode.commands.registerCommand(
+    'comment-tracker.linkPullRequest',
+    async () => {
+      await linkPullRequest(context.workspaceState);
     }
   );
 
-  context.subscriptions.push(addCommentCmd, viewCommentsCmd, deleteCommentCmd, deleteCommentThreadCmd, replyToCommentCmd, resolveCommentThreadCmd, unresolveCommentThreadCmd, deleteReplyCmd, navigateToCommentCmd, exportToMarkdownCmd);
-}
+  const promoteBranchCommentsCmd = vscode.commands.registerCommand(
+    'comment-tracker.promoteBranchComments',
+    async () => {
+      await promoteBranchComments();
+    }
+  );
 
-class CommentsTreeProvider implements vscode.TreeDataProvider<CommentTreeItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<CommentTreeItem | undefined | null | void> = new vscode.EventEmitter<CommentTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<CommentTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+  const migrateStorageCmd = vscode.commands.registerCommand(
+    'comment-tracker.migrateToShardedStorage',
+    async () => {
+      await migrateToShardedStorage();
+    }
+  );
 
-  refresh(): void {
-    this._onDidChangeTreeData.fire();
-  }
+  context.subscriptions.push(addCommentCmd, suggestEditCmd, applySuggestionCmd, rejectSuggestionCmd, viewCommentsCmd, deleteCommentCmd, deleteCommentThreadCmd, replyToCommentCmd, resolveCommentThreadCmd, unresolveCommentThreadCmd, editThreadDetailsCmd, compareWithRevisionCmd, deleteReplyCmd, navigateToCommentCmd, nextCommentCmd, previousCommentCmd, exportToMarkdownCmd, exportCommentsCmd, importCommentsCmd, convertStorageCmd, seedRosterCmd, syncPullRequestCmd, linkPullRequestCmd, promoteBranchCommentsCmd, migrateStorageCmd, restoreArchivedCommentCmd, restoreDeletedCommentCmd, treeRestoreDeletedCmd, purgeDeletedCommentCmd, emptyTrashCmd, editCommentCmd, saveCommentCmd, cancelEditCommentCmd);
+}
 
-  getTreeItem(element: CommentTreeItem): vscode.TreeItem {
-    return element;
+/**
+ * Comments and replies by other people that mention the current user, by id.
+ */
+function findMentionsOfMe(): Map<string, { commentData: CommentData; entry: CommentData | CommentReplyData }> {
+  const mentions = new Map<string, { commentData: CommentData; entry: CommentData | CommentReplyData }>();
+  const me = getCurrentMember();
+  if (!me) {
+    return mentions;
   }
 
-  getChildren(element?: CommentTreeItem): Thenable<CommentTreeItem[]> {
-    if (element) {
-      // If this is a reply item, it has no children
-      if (element.replyData) {
-        return Promise.resolve([]);
+  const isMe = (author: string) => author.toLowerCase() === me.name.toLowerCase() || author.toLowerCase() === me.handle.toLowerCase();
+  for (const commentData of getAllComments()) {
+    if (commentData.archived || !isMentioned(commentData, me.handle)) {
+      continue;
+    }
+    for (const entry of [commentData, ...(commentData.replies ?? [])]) {
+      if (!isMe(entry.author) && entry.mentions?.some(handle => handle.toLowerCase() === me.handle.toLowerCase())) {
+        mentions.set(entry.id, { commentData, entry });
       }
+    }
+  }
+  return mentions;
+}
 
-      // For main comment items, show the comment text first, then replies
-      const children: CommentTreeItem[] = [];
-
-      // Add the comment text as a child item
-      children.push(
-        new CommentTreeItem(
-          `${element.commentData.author}: ${element.commentData.text}`,
-          vscode.TreeItemCollapsibleState.None,
-          element.commentData,
-          undefined,
-          true // Mark as comment text item
-        )
-      );
-
-      // Add replies if any
-      if (element.commentData.replies && element.commentData.replies.length > 0) {
-        element.commentData.replies.forEach(reply => {
-          children.push(
-            new CommentTreeItem(
-              `  └─ ${reply.author}: ${reply.text}`,
-              vscode.TreeItemCollapsibleState.None,
-              element.commentData,
-              reply
-            )
-          );
-        });
-      }
+/**
+ * Tell the current user about mentions of them that arrived with comments
+ * reloaded from disk, such as after a pull.
+ */
+async function notifyNewMentions() {
+  const mentions = findMentionsOfMe();
+  const fresh = [...mentions.entries()].filter(([id]) => !seenMentions.has(id)).map(([, mention]) => mention);
+  seenMentions = new Set(mentions.keys());
+  if (fresh.length === 0) {
+    return;
+  }
 
-      return Promise.resolve(children);
-    } else {
-      // Root level - show all unresolved comments
-      const unresolvedComments = commentStore.comments.filter(c => !c.resolved);
+  const [first] = fresh;
+  const message = fresh.length === 1
+    ? `${first.entry.author} mentioned you on ${first.commentData.filePath}: "${first.entry.text.length > 80 ? `${first.entry.text.slice(0, 80)}…` : first.entry.text}"`
+    : `You were mentioned in ${fresh.length} new comments`;
+  const choice = await vscode.window.showInformationMessage(message, 'Show');
+  if (choice !== 'Show') {
+    return;
+  }
 
-      if (unresolvedComments.length === 0) {
-        return Promise.resolve([]);
-      }
+  if (fresh.length === 1) {
+    await vscode.commands.executeCommand('comment-tracker.navigateToComment', first.commentData);
+  } else {
+    const filters = commentsTreeProvider.getOptions().filters;
+    commentsTreeProvider.updateOptions({ status: 'all', filters: { ...filters, mentionsMe: true } });
+    await vscode.commands.executeCommand('commentTrackerView.focus');
+  }
+}
 
-      return Promise.resolve(
-        unresolvedComments.map(comment => {
-          return new CommentTreeItem(
-            `${comment.filePath}:${comment.range.start.line + 1}`,
-            vscode.TreeItemCollapsibleState.Expanded, // Always expanded to show content
-            comment
-          );
-        })
-      );
-    }
-  }
-}
-
-class CommentTreeItem extends vscode.TreeItem {
-  constructor(
-    public readonly label: string,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly commentData: CommentData,
-    public readonly replyData?: { author: string; timestamp: string; text: string },
-    public readonly isCommentText?: boolean
-  ) {
-    super(label, collapsibleState);
-
-    // Set tooltip and description based on item type
-    if (isCommentText) {
-      // This is the comment text child item - no description needed
-      this.tooltip = `${commentData.author} - ${new Date(commentData.timestamp).toLocaleString()}\n\n${commentData.text}`;
-      this.description = '';
-    } else if (!replyData) {
-      // This is the root comment item (filename:line)
-      this.tooltip = `${commentData.author} - ${new Date(commentData.timestamp).toLocaleString()}\n\n${commentData.text}`;
-      this.description = '';
-    } else {
-      // This is a reply item
-      this.tooltip = `${commentData.author} - ${new Date(commentData.timestamp).toLocaleString()}`;
-      this.description = '';
-    }
-
-    // Add command to navigate to comment when clicked (only for root items and comment text items)
-    if (!replyData || isCommentText) {
-      this.command = {
-        command: 'comment-tracker.navigateToComment',
-        title: 'Go to Comment',
-        arguments: [commentData]
-      };
-    }
+/**
+ * Open a comment's file with the cursor at the start of the comment.
+ */
+async function revealComment(commentData: CommentData): Promise<boolean> {
+  const uri = getCommentUri(commentData);
+  if (!uri) {
+    return false;
   }
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  const editor = await vscode.window.showTextDocument(document);
+
+  const position = new vscode.Position(commentData.range.start.line, commentData.range.start.character);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+  return true;
 }
 
-async function getAuthorName(): Promise<string | undefined> {
-  // Check if there's a configured default author
-  const config = vscode.workspace.getConfiguration('commentTracker');
-  const defaultAuthor = config.get<string>('defaultAuthor');
+/**
+ * Move to the next (`direction` 1) or previous (-1) unresolved thread after
+ * the cursor, in document order and then on into the following files,
+ * wrapping round at the end of the workspace. The thread is expanded and all
+ * others collapsed.
+ */
+async function goToUnresolvedComment(direction: 1 | -1) {
+  const folderStores = getFolderStores();
+  type Location = { folder: number; filePath: string; line: number; character: number };
+  const compare = (a: Location, b: Location) =>
+    a.folder - b.folder ||
+    a.filePath.localeCompare(b.filePath) ||
+    a.line - b.line ||
+    a.character - b.character;
+
+  const targets = getAllComments()
+    .filter(commentData => !commentData.resolved && !commentData.archived)
+    .map(commentData => ({
+      commentData,
+      location: {
+        folder: folderStores.findIndex(folderStore => folderStore.store.comments.includes(commentData)),
+        filePath: commentData.filePath,
+        line: commentData.range.start.line,
+        character: commentData.range.start.character
+      }
+    }))
+    .sort((a, b) => compare(a.location, b.location));
 
-  if (defaultAuthor && defaultAuthor.trim() !== '') {
-    return defaultAuthor.trim();
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage('No unresolved comments');
+    return;
   }
 
-  // Otherwise, prompt with system username as default
-  const author = await vscode.window.showInputBox({
-    prompt: 'Enter your name (or set a default in settings)',
-    placeHolder: 'Your name',
-    value: process.env.USER || process.env.USERNAME || 'Anonymous'
-  });
+  const editor = vscode.window.activeTextEditor;
+  const folderStore = editor ? getFolderStoreForUri(editor.document.uri) : undefined;
+  let target = direction === 1 ? targets[0] : targets[targets.length - 1];
+  if (editor && folderStore) {
+    const cursor: Location = {
+      folder: folderStores.indexOf(folderStore),
+      filePath: getRelativePath(editor.document.uri),
+      line: editor.selection.active.line,
+      character: editor.selection.active.character
+    };
+    const following = direction === 1
+      ? targets.find(t => compare(t.location, cursor) > 0)
+      : [...targets].reverse().find(t => compare(t.location, cursor) < 0);
+    target = following ?? target;
+  }
 
-  return author;
+  if (!await revealComment(target.commentData)) {
+    return;
+  }
+  for (const [id, thread] of commentThreads) {
+    thread.collapsibleState = id === target.commentData.id
+      ? vscode.CommentThreadCollapsibleState.Expanded
+      : vscode.CommentThreadCollapsibleState.Collapsed;
+  }
 }
 
-async function addComment() {
+/**
+ * The editor, folder and range a new comment from a command goes on: the
+ * selection, or the whole line when nothing is selected.
+ */
+function getNewCommentTarget(): { editor: vscode.TextEditor; folderStore: FolderCommentStore; range: vscode.Range } | undefined {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showErrorMessage('No active editor found');
-    return;
+    return undefined;
+  }
+
+  const folderStore = getFolderStoreForUri(editor.document.uri);
+  if (!folderStore) {
+    vscode.window.showErrorMessage('Comments can only be added to files in a workspace folder');
+    return undefined;
   }
 
   const selection = editor.selection;
@@ -361,6 +842,14 @@ async function addComment() {
     const line = editor.document.lineAt(selection.start.line);
     range = line.range;
   }
+  return { editor, folderStore, range };
+}
+
+async function addComment() {
+  const target = getNewCommentTarget();
+  if (!target) {
+    return;
+  }
 
   const commentText = await vscode.window.showInputBox({
     prompt: 'Enter your comment',
@@ -371,13 +860,87 @@ async function addComment() {
     return;
   }
 
-  const author = await getAuthorName();
+  await createComment(target.editor, target.folderStore, target.range, commentText);
+}
+
+/**
+ * Suggest replacement text for the selection. The suggestion is written in
+ * the comment editor, in a ```suggestion block that starts out holding the
+ * selected text, with anything outside the block saying why.
+ */
+function suggestEdit() {
+  const target = getNewCommentTarget();
+  if (!target) {
+    return;
+  }
+
+  const original = target.editor.document.getText(target.range);
+  const thread = commentController.createCommentThread(target.editor.document.uri, target.range, []);
+  thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+  thread.canReply = false;
+  thread.label = 'Suggest an edit';
+  thread.contextValue = 'suggestionDraft';
+  thread.comments = [{
+    body: `\`\`\`suggestion\n${original}\n\`\`\`\n`,
+    mode: vscode.CommentMode.Editing,
+    author: { name: getKnownIdentity()?.name ?? 'You' },
+    contextValue: 'suggestionDraft'
+  }];
+  suggestionDrafts.set(thread, { editor: target.editor, folderStore: target.folderStore });
+}
+
+function findSuggestionDraft(comment: vscode.Comment): vscode.CommentThread | undefined {
+  return [...suggestionDrafts.keys()].find(thread => thread.comments.includes(comment));
+}
+
+/**
+ * Post a suggestion written in the comment editor. The draft stays open if
+ * it has no suggestion in it yet.
+ */
+async function postSuggestionDraft(thread: vscode.CommentThread, comment: vscode.Comment) {
+  const target = suggestionDrafts.get(thread);
+  // The thread's range follows edits made while the suggestion was being written
+  const range = thread.range;
+  if (!target || !range) {
+    return;
+  }
+
+  const body = typeof comment.body === 'string' ? comment.body : comment.body.value;
+  const { text, suggestion } = extractSuggestion(body);
+  if (suggestion === undefined) {
+    vscode.window.showErrorMessage('Put the suggested text in a ```suggestion block');
+    return;
+  }
+  const original = target.editor.document.getText(range);
+  if (suggestion === original) {
+    vscode.window.showInformationMessage('The suggestion is the same as the current text');
+    return;
+  }
+
+  discardSuggestionDraft(thread);
+  await createComment(target.editor, target.folderStore, range, text || 'Suggested edit', { text: suggestion, original });
+}
+
+function discardSuggestionDraft(thread: vscode.CommentThread) {
+  suggestionDrafts.delete(thread);
+  thread.dispose();
+}
+
+async function createComment(
+  editor: vscode.TextEditor,
+  folderStore: FolderCommentStore,
+  range: vscode.Range,
+  commentText: string,
+  suggestion?: CommentSuggestion
+) {
+  const identity = await getAuthorIdentity();
 
-  if (!author) {
+  if (!identity) {
     return;
   }
 
-  const commentId = Date.now().toString();
+  const author = identity.name;
+  const commentId = createId();
   const timestamp = new Date().toISOString();
 
   // Create comment thread
@@ -387,15 +950,6 @@ async function addComment() {
     []
   );
 
-  const vsComment: vscode.Comment = {
-    body: new vscode.MarkdownString(`${new Date(timestamp).toLocaleString()}\n\n${commentText}`),
-    mode: vscode.CommentMode.Preview,
-    author: {
-      name: author
-    }
-  };
-
-  thread.comments = [vsComment];
   thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
   thread.canReply = true;
   thread.contextValue = commentId;
@@ -404,24 +958,42 @@ async function addComment() {
   // Store comment data
   const commentData: CommentData = {
     id: commentId,
-    author,
+    ...authorFields(identity),
     timestamp,
     text: commentText,
-    filePath: vscode.workspace.asRelativePath(editor.document.uri),
+    filePath: getRelativePath(editor.document.uri),
     range: {
       start: { line: range.start.line, character: range.start.character },
       end: { line: range.end.line, character: range.end.character }
     },
     replies: [],
-    resolved: false
+    resolved: false,
+    anchor: createAnchor(
+      editor.document.getText(),
+      editor.document.offsetAt(range.start),
+      editor.document.offsetAt(range.end)
+    ),
+    ...(suggestion ? { suggestion } : {}),
+    git: await getCommentRevision(editor.document, range)
   };
 
-  commentStore.comments.push(commentData);
+  updateMentions(commentData);
+  recordActivity(commentData, 'created', author);
+  thread.comments = [createThreadComment(commentData)];
+
+  // CriticMarkup comments have nowhere to keep a suggestion
+  if (!suggestion && isInlineEnabled(editor.document.uri) && canStoreInline(editor.document, range)) {
+    commentData.inline = true;
+  }
+  scopeToBranch(commentData, editor.document.uri);
+
+  folderStore.store.comments.push(commentData);
   commentThreads.set(commentId, thread);
 
   saveComments();
+  await updateInlineDocument(commentData);
 
-  vscode.window.showInformationMessage(`Comment added by ${author}`);
+  vscode.window.showInformationMessage(`${suggestion ? 'Suggestion' : 'Comment'} added by ${author}`);
 }
 
 async function viewComments() {
@@ -431,8 +1003,7 @@ async function viewComments() {
     return;
   }
 
-  const filePath = vscode.workspace.asRelativePath(editor.document.uri);
-  const fileComments = commentStore.comments.filter(c => c.filePath === filePath);
+  const fileComments = getCommentsForUri(editor.document.uri);
 
   if (fileComments.length === 0) {
     vscode.window.showInformationMessage('No comments found for this file');
@@ -463,8 +1034,7 @@ async function deleteComment() {
     return;
   }
 
-  const filePath = vscode.workspace.asRelativePath(editor.document.uri);
-  const fileComments = commentStore.comments.filter(c => c.filePath === filePath);
+  const fileComments = getCommentsForUri(editor.document.uri);
 
   if (fileComments.length === 0) {
     vscode.window.showInformationMessage('No comments found for this file');
@@ -484,7 +1054,7 @@ async function deleteComment() {
   if (selected) {
     // Confirm deletion
     const confirm = await vscode.window.showWarningMessage(
-      `Delete comment: "${selected.comment.text}"?`,
+      `Delete comment: "${selected.comment.text}"? It can be restored from the Trash.`,
       { modal: true },
       'Delete'
     );
@@ -493,18 +1063,7 @@ async function deleteComment() {
       return;
     }
 
-    // Remove from store
-    commentStore.comments = commentStore.comments.filter(c => c.id !== selected.comment.id);
-
-    // Dispose comment thread
-    const thread = commentThreads.get(selected.comment.id);
-    if (thread) {
-      thread.dispose();
-      commentThreads.delete(selected.comment.id);
-    }
-
-    saveComments();
-    vscode.window.showInformationMessage('Comment deleted');
+    await moveToTrash(selected.comment);
   }
 }
 
@@ -516,7 +1075,11 @@ async function deleteCommentThread(thread: vscode.CommentThread) {
     return;
   }
 
-  const commentData = commentStore.comments.find(c => c.id === commentId);
+  await deleteCommentById(commentId);
+}
+
+async function deleteCommentById(commentId: string) {
+  const commentData = findComment(commentId);
   if (!commentData) {
     vscode.window.showErrorMessage('Comment not found');
     return;
@@ -524,7 +1087,7 @@ async function deleteCommentThread(thread: vscode.CommentThread) {
 
   // Confirm deletion
   const confirm = await vscode.window.showWarningMessage(
-    `Delete this comment thread?`,
+    'Delete this comment thread? It can be restored from the Trash.',
     { modal: true },
     'Delete'
   );
@@ -533,15 +1096,180 @@ async function deleteCommentThread(thread: vscode.CommentThread) {
     return;
   }
 
-  // Remove from store
-  commentStore.comments = commentStore.comments.filter(c => c.id !== commentId);
+  await moveToTrash(commentData);
+}
 
-  // Dispose comment thread
-  thread.dispose();
-  commentThreads.delete(commentId);
+/**
+ * Soft-delete a thread: it leaves the editor but is kept, with its activity
+ * log, in the Trash until it is purged.
+ */
+async function moveToTrash(commentData: CommentData) {
+  // The tombstone lives in the comments file, so an inline comment's markup is removed from the document
+  const inlineUri = commentData.inline ? getCommentUri(commentData) : undefined;
+  delete commentData.inline;
+  commentData.deleted = true;
+  recordActivity(commentData, 'deleted');
+
+  // Dispose comment thread (archived comments have none)
+  commentThreads.get(commentData.id)?.dispose();
+  commentThreads.delete(commentData.id);
 
   saveComments();
-  vscode.window.showInformationMessage('Comment deleted');
+  if (inlineUri) {
+    await writeInlineComments(inlineUri);
+  }
+
+  const entry: DeletedEntry = { kind: 'thread', commentId: commentData.id, deletedAt: new Date().toISOString() };
+  deletionHistory.add(entry);
+  offerUndo('Comment moved to the Trash', entry);
+}
+
+/**
+ * Show a deletion notification with an Undo button. The notification is not
+ * awaited, so the delete command finishes while it is still showing.
+ */
+function offerUndo(message: string, entry: DeletedEntry) {
+  vscode.window.showInformationMessage(message, 'Undo').then(async choice => {
+    if (choice === 'Undo') {
+      await restoreDeletedEntry(entry);
+    }
+  });
+}
+
+async function restoreDeletedEntry(entry: DeletedEntry) {
+  const commentData = findComment(entry.commentId);
+  if (entry.kind === 'thread') {
+    if (!commentData?.deleted) {
+      vscode.window.showErrorMessage('The comment thread is no longer in the Trash');
+      deletionHistory.remove(e => e === entry || (e.kind === 'thread' && e.commentId === entry.commentId));
+      return;
+    }
+    await restoreDeletedComment(commentData);
+  } else {
+    await restoreDeletedReply(entry, commentData);
+  }
+}
+
+/**
+ * Bring a deleted thread back from the Trash, re-anchored to its text as the
+ * file is now.
+ */
+async function restoreDeletedComment(commentData: CommentData) {
+  delete commentData.deleted;
+  recordActivity(commentData, 'restored', undefined, 'from the Trash');
+  deletionHistory.remove(entry => entry.kind === 'thread' && entry.commentId === commentData.id);
+
+  // Open the file so the thread is re-anchored now: at its old range if the text is still there, otherwise at the best match
+  const uri = getCommentUri(commentData);
+  if (uri && !commentData.archived) {
+    try {
+      await vscode.workspace.openTextDocument(uri);
+    } catch {
+      // The file is gone; the thread is re-anchored if it comes back
+    }
+  }
+
+  rebuildCommentThreads();
+  saveComments();
+  vscode.window.showInformationMessage(
+    commentData.archived ? 'Comment restored to Archived, as its file has been deleted' : `Comment restored to ${commentData.filePath}`
+  );
+}
+
+async function restoreDeletedReply(entry: Extract<DeletedEntry, { kind: 'reply' }>, commentData: CommentData | undefined) {
+  deletionHistory.remove(e => e.kind === 'reply' && e.reply.id === entry.reply.id);
+  if (!commentData || commentData.deleted) {
+    vscode.window.showErrorMessage('The thread this reply belonged to has been deleted. Restore the thread first.');
+    return;
+  }
+
+  const replies = commentData.replies ?? [];
+  if (replies.some(reply => reply.id === entry.reply.id)) {
+    return;
+  }
+  replies.splice(Math.min(entry.index, replies.length), 0, entry.reply);
+  commentData.replies = replies;
+  unmarkReviewReplyDeleted(commentData, entry.reply);
+  recordActivity(commentData, 'restored', undefined, `reply by ${entry.reply.author}`);
+
+  const thread = commentThreads.get(commentData.id);
+  if (thread) {
+    thread.comments = buildThreadComments(commentData);
+  }
+  saveComments();
+  await updateInlineDocument(commentData);
+  vscode.window.showInformationMessage('Reply restored');
+}
+
+/**
+ * Pick one of the recent deletions to undo. Entries that can no longer be
+ * restored (purged, or already restored some other way) are dropped.
+ */
+async function chooseDeletedEntryToRestore() {
+  deletionHistory.remove(entry => {
+    const commentData = findComment(entry.commentId);
+    return entry.kind === 'thread'
+      ? !commentData?.deleted
+      : !commentData || !!commentData.replies?.some(reply => reply.id === entry.reply.id);
+  });
+
+  const entries = deletionHistory.getEntries();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('No recently deleted comments to restore');
+    return;
+  }
+
+  const items = entries.map(entry => {
+    const commentData = findComment(entry.commentId)!;
+    const location = `${commentData.filePath}:${commentData.range.start.line + 1}`;
+    return entry.kind === 'thread'
+      ? {
+        label: `$(comment-discussion) ${commentData.text}`,
+        description: `${commentData.author} · ${location}`,
+        detail: `Thread deleted ${new Date(entry.deletedAt).toLocaleString()}`,
+        entry
+      }
+      : {
+        label: `$(reply) ${entry.reply.text}`,
+        description: `${entry.reply.author} · ${location}`,
+        detail: `Reply deleted ${new Date(entry.deletedAt).toLocaleString()}`,
+        entry
+      };
+  });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Restore a deleted comment thread or reply',
+    matchOnDescription: true
+  });
+  if (selected) {
+    await restoreDeletedEntry(selected.entry);
+  }
+}
+
+/**
+ * Delete threads in the Trash for good, after confirming.
+ */
+async function purgeDeletedComments(comments: CommentData[]) {
+  if (comments.length === 0) {
+    vscode.window.showInformationMessage('The Trash is empty');
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    comments.length === 1
+      ? 'Permanently delete this comment thread and its activity log?'
+      : `Permanently delete ${comments.length} comment threads and their activity logs?`,
+    { modal: true },
+    'Delete Permanently'
+  );
+  if (confirm !== 'Delete Permanently') {
+    return;
+  }
+
+  comments.forEach(commentData => removeComment(commentData.id));
+  const purged = new Set(comments.map(commentData => commentData.id));
+  deletionHistory.remove(entry => purged.has(entry.commentId));
+  saveComments();
 }
 
 async function resolveCommentThread(thread: vscode.CommentThread, toggleToResolved?: boolean) {
@@ -553,7 +1281,7 @@ async function resolveCommentThread(thread: vscode.CommentThread, toggleToResolv
   }
 
   // If toggleToResolved not specified, toggle based on current state
-  const commentData = commentStore.comments.find(c => c.id === commentId);
+  const commentData = findComment(commentId);
   if (!commentData) {
     vscode.window.showErrorMessage('Comment data not found');
     return;
@@ -564,22 +1292,150 @@ async function resolveCommentThread(thread: vscode.CommentThread, toggleToResolv
   // Update the thread state
   thread.state = resolved ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved;
 
+  // Update storage
+  if (!!commentData.resolved !== resolved) {
+    recordActivity(commentData, resolved ? 'resolved' : 'reopened');
+  }
+  commentData.resolved = resolved;
+
   // Update the first comment to show resolved status
-  if (thread.comments && thread.comments.length > 0) {
-    const firstComment = thread.comments[0];
-    const updatedComment: vscode.Comment = {
-      ...firstComment,
-      author: {
-        name: resolved ? `RESOLVED - ${commentData.author}` : commentData.author
-      }
-    };
-    thread.comments = [updatedComment, ...thread.comments.slice(1)];
+  updateThreadHeader(thread, commentData);
+  saveComments();
+  await updateInlineDocument(commentData);
+  vscode.window.showInformationMessage(resolved ? 'Comment resolved' : 'Comment unresolved');
+}
+
+async function editThreadDetailsById(commentId: string | undefined) {
+  const commentData = commentId ? findComment(commentId) : undefined;
+  if (!commentData) {
+    vscode.window.showErrorMessage('Comment data not found');
+    return;
+  }
+  if (commentData.inline) {
+    // CriticMarkup has nowhere to keep them, so they would be lost on the next reload
+    vscode.window.showWarningMessage('Comments stored inline as CriticMarkup cannot have an assignee, priority, labels or due date');
+    return;
+  }
+
+  if (!await editThreadDetails(commentData)) {
+    return;
+  }
+  recordActivity(commentData, 'updated', undefined, describeDetails(commentData).join(', ') || 'cleared');
+
+  const uri = getCommentUri(commentData);
+  const thread = commentThreads.get(commentData.id);
+  if (thread) {
+    updateThreadHeader(thread, commentData);
+  }
+  if (uri && !commentData.archived) {
+    refreshCommentThreads(uri);
+  }
+  saveComments();
+}
+
+async function compareWithCommentRevision(commentId: string | undefined) {
+  const commentData = commentId ? findComment(commentId) : undefined;
+  const uri = commentData && getCommentUri(commentData);
+  if (!commentData || !uri) {
+    vscode.window.showErrorMessage('Comment data not found');
+    return;
+  }
+  await openRevisionDiff(commentData, uri);
+}
+
+/**
+ * Flag the comments in a file whose lines changed since the commit they were
+ * written against.
+ */
+async function checkOutdatedComments(uri: vscode.Uri) {
+  if (!await updateOutdatedComments(uri, getCommentsForUri(uri))) {
+    return;
+  }
+  refreshCommentThreads(uri);
+  commentsTreeProvider?.refresh();
+  vscode.window.visibleTextEditors
+    .filter(editor => editor.document.uri.toString() === uri.toString())
+    .forEach(updateCommentDecorations);
+}
+
+/**
+ * Flag the suggestions in a document whose text has changed since they were
+ * made, and clear the flag from those whose text is back.
+ */
+function checkSuggestions(document: vscode.TextDocument) {
+  const fileComments = getCommentsForUri(document.uri);
+  if (!updateStaleSuggestions(document, fileComments)) {
+    return;
+  }
+  fileComments
+    .filter(commentData => commentData.suggestion)
+    .forEach(commentData => updateThreadHeader(commentThreads.get(commentData.id), commentData));
+  refreshCommentThreads(document.uri);
+  commentsTreeProvider?.refresh();
+}
+
+/**
+ * Scope a new comment to the branch it was written on when the
+ * `scopeNewCommentsToBranch` setting asks for it. Inline comments live in the
+ * document, which is already particular to the branch.
+ */
+function scopeToBranch(commentData: CommentData, uri: vscode.Uri) {
+  if (!commentData.inline && commentData.git?.branch && vscode.workspace.getConfiguration('commentTracker', uri).get<boolean>('scopeNewCommentsToBranch', false)) {
+    commentData.scope = commentData.git.branch;
+  }
+}
+
+/**
+ * Redraw everything after the set of comments in scope changed, because a
+ * different branch was checked out or comments were made global.
+ */
+function showCommentsInScope() {
+  rebuildCommentThreads();
+  commentsTreeProvider?.refresh();
+  searchResultsProvider?.refresh();
+  vscode.window.visibleTextEditors.forEach(updateCommentDecorations);
+  vscode.workspace.textDocuments.forEach(document => checkOutdatedComments(document.uri));
+}
+
+/**
+ * Make the threads scoped to a branch global, for example once the branch has
+ * been merged.
+ */
+async function promoteBranchComments() {
+  const scoped = getBranchScopedComments();
+  if (scoped.length === 0) {
+    vscode.window.showInformationMessage('No comments are scoped to a branch');
+    return;
+  }
+
+  const counts = new Map<string, number>();
+  for (const commentData of scoped) {
+    counts.set(commentData.scope!, (counts.get(commentData.scope!) ?? 0) + 1);
+  }
+  const editor = vscode.window.activeTextEditor;
+  const current = editor ? getCurrentBranch(editor.document.uri) : undefined;
+  const items = [...counts.entries()]
+    .sort(([a], [b]) => (a === current ? -1 : b === current ? 1 : a.localeCompare(b)))
+    .map(([branch, count]) => ({
+      label: `$(git-branch) ${branch}`,
+      description: `${count} comment${count === 1 ? '' : 's'}${branch === current ? ' · current branch' : ''}`,
+      branch
+    }));
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Make the comments scoped to which branch global?' });
+  if (!selected) {
+    return;
   }
 
-  // Update storage
-  commentData.resolved = resolved;
+  const promoted = scoped.filter(commentData => commentData.scope === selected.branch);
+  for (const commentData of promoted) {
+    delete commentData.scope;
+    recordActivity(commentData, 'updated', undefined, `made global from branch ${selected.branch}`);
+  }
+  showCommentsInScope();
   saveComments();
-  vscode.window.showInformationMessage(resolved ? 'Comment resolved' : 'Comment unresolved');
+
+  vscode.window.showInformationMessage(`${promoted.length} comment${promoted.length === 1 ? '' : 's'} from ${selected.branch} now shown on every branch`);
 }
 
 async function deleteReplyInteractive() {
@@ -589,8 +1445,7 @@ async function deleteReplyInteractive() {
     return;
   }
 
-  const filePath = vscode.workspace.asRelativePath(editor.document.uri);
-  const fileComments = commentStore.comments.filter(c => c.filePath === filePath);
+  const fileComments = getCommentsForUri(editor.document.uri);
 
   // Build a list of all replies
   const replyItems: Array<{
@@ -645,15 +1500,36 @@ async function deleteReplyInteractive() {
   }
 
   // Remove from storage
+  const replyIndex = selected.commentData.replies?.findIndex(r => r.id === selected.replyId) ?? -1;
+  const deletedReply = selected.commentData.replies?.[replyIndex];
   if (selected.commentData.replies) {
     selected.commentData.replies = selected.commentData.replies.filter(r => r.id !== selected.replyId);
   }
+  if (deletedReply) {
+    markReviewReplyDeleted(selected.commentData, deletedReply);
+  }
+  recordActivity(selected.commentData, 'replyDeleted', undefined, deletedReply ? `by ${deletedReply.author}` : undefined);
 
   // Update the thread's comments
   thread.comments = thread.comments.filter(c => c.contextValue !== selected.replyId);
+  updateThreadHeader(thread, selected.commentData);
 
   saveComments();
-  vscode.window.showInformationMessage('Reply deleted');
+  await updateInlineDocument(selected.commentData);
+
+  if (!deletedReply) {
+    vscode.window.showInformationMessage('Reply deleted');
+    return;
+  }
+  const entry: DeletedEntry = {
+    kind: 'reply',
+    commentId: selected.commentData.id,
+    reply: deletedReply,
+    index: replyIndex,
+    deletedAt: new Date().toISOString()
+  };
+  deletionHistory.add(entry);
+  offerUndo('Reply deleted', entry);
 }
 
 async function replyToComment(reply: vscode.CommentReply) {
@@ -672,90 +1548,104 @@ async function replyToComment(reply: vscode.CommentReply) {
   // Check if this is a NEW comment (empty thread) or a REPLY (thread has comments)
   const isNewComment = !thread.comments || thread.comments.length === 0;
 
-  const author = await getAuthorName();
+  const identity = await getAuthorIdentity();
 
-  if (!author) {
+  if (!identity) {
     return;
   }
 
+  const author = identity.name;
   const timestamp = new Date().toISOString();
 
   if (isNewComment) {
     // This is a NEW comment from the + icon
-    const commentId = Date.now().toString();
+    const commentId = createId();
 
-    const vsComment: vscode.Comment = {
-      body: new vscode.MarkdownString(`${new Date(timestamp).toLocaleString()}\n\n${replyText}`),
-      mode: vscode.CommentMode.Preview,
-      author: {
-        name: author
-      }
-    };
-
-    thread.comments = [vsComment];
     thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
     thread.canReply = true;
     thread.contextValue = commentId;
     thread.state = vscode.CommentThreadState.Unresolved;
 
     // Store comment data
-    const filePath = vscode.workspace.asRelativePath(thread.uri);
+    const folderStore = getFolderStoreForUri(thread.uri);
+    const filePath = getRelativePath(thread.uri);
     const range = thread.range;
 
+    if (!folderStore) {
+      vscode.window.showErrorMessage('Comments can only be added to files in a workspace folder');
+      return;
+    }
+
     if (!range) {
       vscode.window.showErrorMessage('Invalid comment range');
       return;
     }
 
+    // A ```suggestion block makes the comment a suggested edit of the commented text
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === thread.uri.toString());
+    const extracted = document ? extractSuggestion(replyText) : { text: replyText };
+    const suggestion: CommentSuggestion | undefined = document && extracted.suggestion !== undefined
+      ? { text: extracted.suggestion, original: document.getText(range) }
+      : undefined;
+
     const commentData: CommentData = {
       id: commentId,
-      author,
+      ...authorFields(identity),
       timestamp,
-      text: replyText,
+      text: extracted.text || 'Suggested edit',
       filePath,
       range: {
         start: { line: range.start.line, character: range.start.character },
         end: { line: range.end.line, character: range.end.character }
       },
       replies: [],
-      resolved: false
+      resolved: false,
+      anchor: anchorForRange(thread.uri, range),
+      ...(suggestion ? { suggestion } : {}),
+      git: document ? await getCommentRevision(document, range) : await getGitRevision(thread.uri)
     };
 
-    commentStore.comments.push(commentData);
+    updateMentions(commentData);
+    recordActivity(commentData, 'created', author);
+    thread.comments = [createThreadComment(commentData)];
+
+    if (document && !suggestion && isInlineEnabled(thread.uri) && canStoreInline(document, range)) {
+      commentData.inline = true;
+    }
+    scopeToBranch(commentData, thread.uri);
+
+    folderStore.store.comments.push(commentData);
     commentThreads.set(commentId, thread);
     saveComments();
+    await updateInlineDocument(commentData);
 
-    vscode.window.showInformationMessage(`Comment added by ${author}`);
+    vscode.window.showInformationMessage(`${suggestion ? 'Suggestion' : 'Comment'} added by ${author}`);
   } else {
     // This is a REPLY to an existing comment
-    const replyId = `${thread.contextValue}-reply-${Date.now()}`;
-    const newComment: vscode.Comment = {
-      body: new vscode.MarkdownString(`└─ ${new Date(timestamp).toLocaleString()}\n\n${replyText}`),
-      mode: vscode.CommentMode.Preview,
-      author: {
-        name: author
-      },
-      contextValue: replyId
+    const replyData: CommentReplyData = {
+      id: createId(),
+      ...authorFields(identity),
+      timestamp,
+      text: replyText
     };
+    updateMentions(replyData);
 
     // Add the new reply to the thread
-    thread.comments = [...thread.comments, newComment];
+    thread.comments = [...thread.comments, createReplyComment(replyData)];
 
     // Save the reply to storage
     const commentId = thread.contextValue;
     if (commentId) {
-      const commentData = commentStore.comments.find(c => c.id === commentId);
+      const commentData = findComment(commentId);
       if (commentData) {
         if (!commentData.replies) {
           commentData.replies = [];
         }
-        commentData.replies.push({
-          id: replyId,
-          author,
-          timestamp,
-          text: replyText
-        });
+        commentData.replies.push(replyData);
+        recordActivity(commentData, 'replied', author);
+        updateThreadHeader(thread, commentData);
         saveComments();
+        await updateInlineDocument(commentData);
       }
     }
 
@@ -763,172 +1653,655 @@ async function replyToComment(reply: vscode.CommentReply) {
   }
 }
 
+/**
+ * Find the thread, stored comment and (for replies) stored reply behind a
+ * comment shown in the editor.
+ */
+function findCommentTarget(comment: vscode.Comment): {
+  thread: vscode.CommentThread;
+  commentData: CommentData;
+  reply?: CommentReplyData;
+} | undefined {
+  for (const [id, thread] of commentThreads) {
+    const index = thread.comments.indexOf(comment);
+    if (index === -1) {
+      continue;
+    }
+
+    const commentData = findComment(id);
+    if (!commentData) {
+      return undefined;
+    }
+    if (index === 0) {
+      return { thread, commentData };
+    }
+
+    const reply = commentData.replies?.find(r => r.id === comment.contextValue);
+    return reply ? { thread, commentData, reply } : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Give or take back a reaction on a comment or reply shown in the editor.
+ */
+function toggleCommentReaction(comment: vscode.Comment, emoji: string) {
+  const target = findCommentTarget(comment);
+  if (!target) {
+    vscode.window.showErrorMessage('Comment not found');
+    return;
+  }
+  if (target.commentData.inline) {
+    vscode.window.showWarningMessage('Comments stored inline as CriticMarkup cannot have reactions');
+    return;
+  }
+
+  const entry = target.reply ?? target.commentData;
+  toggleReaction(entry, emoji, getActivityAuthor());
+  // Keep the comment as it is, in case it is being edited
+  target.thread.comments = target.thread.comments.map(c =>
+    c === comment ? { ...c, reactions: getCommentReactions(entry) } : c
+  );
+  saveComments();
+}
+
+/**
+ * Apply or reject the suggested edit on a thread. Either way the thread is
+ * resolved, with who decided recorded on the suggestion.
+ */
+async function decideSuggestion(comment: vscode.Comment, status: 'applied' | 'rejected') {
+  const target = findCommentTarget(comment);
+  if (!target || target.reply) {
+    vscode.window.showErrorMessage('Suggestion not found');
+    return;
+  }
+
+  const { thread, commentData } = target;
+  const uri = getCommentUri(commentData);
+  if (!uri || !commentData.suggestion || !isPendingSuggestion(commentData)) {
+    vscode.window.showErrorMessage('This comment has no suggestion waiting to be applied');
+    return;
+  }
+
+  if (status === 'applied') {
+    applyingSuggestions.add(commentData.id);
+    let range: vscode.Range | undefined;
+    try {
+      range = await applySuggestionEdit(commentData, uri);
+    } finally {
+      applyingSuggestions.delete(commentData.id);
+    }
+    if (!range) {
+      vscode.window.showWarningMessage('The suggestion no longer applies: the text has changed since it was made');
+      checkSuggestions(await vscode.workspace.openTextDocument(uri));
+      return;
+    }
+    // The replaced text is gone, so the thread moves onto the text that replaced it
+    commentData.range = {
+      start: { line: range.start.line, character: range.start.character },
+      end: { line: range.end.line, character: range.end.character }
+    };
+    commentData.anchor = anchorForRange(uri, range);
+    delete commentData.orphaned;
+  }
+
+  const author = getActivityAuthor();
+  commentData.suggestion = { ...commentData.suggestion, status, decidedBy: author, decidedAt: new Date().toISOString() };
+  recordActivity(commentData, status, author);
+  if (!commentData.resolved) {
+    recordActivity(commentData, 'resolved', author);
+  }
+  commentData.resolved = true;
+
+  thread.state = vscode.CommentThreadState.Resolved;
+  updateThreadHeader(thread, commentData);
+  refreshCommentThreads(uri);
+  vscode.window.visibleTextEditors
+    .filter(editor => editor.document.uri.toString() === uri.toString())
+    .forEach(updateCommentDecorations);
+  saveComments();
+  vscode.window.showInformationMessage(status === 'applied' ? 'Suggestion applied' : 'Suggestion rejected');
+}
+
+/**
+ * Pick a reaction to give or take back on a thread, from the Comments view.
+ */
+async function reactToCommentById(commentId: string) {
+  const commentData = findComment(commentId);
+  if (!commentData) {
+    vscode.window.showErrorMessage('Comment not found');
+    return;
+  }
+  if (commentData.inline) {
+    vscode.window.showWarningMessage('Comments stored inline as CriticMarkup cannot have reactions');
+    return;
+  }
+
+  const me = getActivityAuthor();
+  const selected = await vscode.window.showQuickPick(
+    REACTIONS.map(emoji => {
+      const count = commentData.reactions?.[emoji]?.length ?? 0;
+      return {
+        label: emoji,
+        description: hasReacted(commentData, emoji, me) ? `${count} · yours, pick to take back` : count > 0 ? `${count}` : '',
+        emoji
+      };
+    }),
+    { placeHolder: `React to ${commentData.author}'s comment` }
+  );
+  if (!selected) {
+    return;
+  }
+
+  toggleReaction(commentData, selected.emoji, me);
+  updateThreadHeader(commentThreads.get(commentId), commentData);
+  saveComments();
+}
+
+function editComment(comment: vscode.Comment) {
+  const target = findCommentTarget(comment);
+  if (!target) {
+    vscode.window.showErrorMessage('Comment not found');
+    return;
+  }
+
+  // Edit the raw text, without the timestamp header shown in preview
+  const entry = target.reply ?? target.commentData;
+  target.thread.comments = target.thread.comments.map(c =>
+    c === comment ? { ...c, body: entry.text, mode: vscode.CommentMode.Editing } : c
+  );
+}
+
+async function saveCommentEdit(comment: vscode.Comment) {
+  const draft = findSuggestionDraft(comment);
+  if (draft) {
+    await postSuggestionDraft(draft, comment);
+    return;
+  }
+
+  const target = findCommentTarget(comment);
+  if (!target) {
+    vscode.window.showErrorMessage('Comment not found');
+    return;
+  }
+
+  const entry = target.reply ?? target.commentData;
+  const newText = (typeof comment.body === 'string' ? comment.body : comment.body.value).trim();
+
+  if (newText === '') {
+    vscode.window.showErrorMessage('Comment text cannot be empty');
+    return;
+  }
+
+  if (newText !== entry.text) {
+    // Keep the superseded wording so reviewers can see what changed
+    entry.revisions = [...(entry.revisions ?? []), { text: entry.text, timestamp: entry.editedAt ?? entry.timestamp }];
+    entry.text = newText;
+    updateMentions(entry);
+    entry.editedAt = new Date().toISOString();
+    recordActivity(target.commentData, 'edited', undefined, target.reply ? `reply by ${target.reply.author}` : undefined);
+    saveComments();
+    await updateInlineDocument(target.commentData);
+  }
+
+  target.thread.comments = target.thread.comments.map(c =>
+    c === comment ? (target.reply ? createReplyComment(target.reply) : createThreadComment(target.commentData)) : c
+  );
+  updateThreadHeader(target.thread, target.commentData);
+}
+
+function cancelCommentEdit(comment: vscode.Comment) {
+  const draft = findSuggestionDraft(comment);
+  if (draft) {
+    discardSuggestionDraft(draft);
+    return;
+  }
+
+  const target = findCommentTarget(comment);
+  if (!target) {
+    return;
+  }
+
+  target.thread.comments = target.thread.comments.map(c =>
+    c === comment ? (target.reply ? createReplyComment(target.reply) : createThreadComment(target.commentData)) : c
+  );
+}
+
 function updateCommentPositionsFromEdits(event: vscode.TextDocumentChangeEvent) {
-  const filePath = vscode.workspace.asRelativePath(event.document.uri);
-  const threadsToUpdate: Array<{ id: string; newRange: vscode.Range; thread: vscode.CommentThread }> = [];
-
-  // Process changes immediately and collect threads that need updating
-  for (const change of event.contentChanges) {
-    const changeStartLine = change.range.start.line;
-    const changeEndLine = change.range.end.line;
-    const linesAdded = change.text.split('\n').length - 1;
-    const linesRemoved = changeEndLine - changeStartLine;
-    const lineDelta = linesAdded - linesRemoved;
-
-    if (lineDelta === 0) {
-      continue; // No line changes, positions don't need updating
-    }
-
-    // Update all comments in this file that come after the change
-    for (const commentData of commentStore.comments) {
-      if (commentData.filePath === filePath) {
-        // Determine if comment should move based on where the change occurred
-        const shouldMove = commentData.range.start.line > changeStartLine;
-
-        if (shouldMove) {
-          commentData.range.start.line += lineDelta;
-          commentData.range.end.line += lineDelta;
-
-          // Collect thread for batch update
-          const thread = commentThreads.get(commentData.id);
-          if (thread) {
-            const newRange = new vscode.Range(
-              commentData.range.start.line,
-              commentData.range.start.character,
-              commentData.range.end.line,
-              commentData.range.end.character
-            );
-            threadsToUpdate.push({ id: commentData.id, newRange, thread });
-          }
-        }
-      }
+  if (event.contentChanges.length === 0) {
+    return;
+  }
+
+  const fileComments = getCommentsForUri(event.document.uri);
+  if (fileComments.length === 0) {
+    return;
+  }
+
+  const content = event.document.getText();
+
+  // Changes all refer to the pre-edit document, so apply them from the bottom up
+  const changes = [...event.contentChanges].sort((a, b) => b.rangeOffset - a.rangeOffset);
+  let changed = false;
+
+  for (const commentData of fileComments) {
+    if (applyingSuggestions.has(commentData.id)) {
+      continue;
+    }
+
+    let range = commentData.range;
+    let needsSearch = false;
+    for (const change of changes) {
+      const result = transformRange(range, { range: change.range, text: change.text });
+      range = result.range;
+      needsSearch = needsSearch || result.contained;
+    }
+
+    const collapsed = range.start.line === range.end.line && range.start.character === range.end.character;
+    const hadText = !!commentData.anchor?.text;
+
+    if ((needsSearch || (collapsed && hadText)) && commentData.anchor) {
+      changed = relocateComment(commentData, event.document, content, event.document.offsetAt(toPosition(range.start))) || changed;
+      continue;
+    }
+
+    if (!rangesEqual(range, commentData.range)) {
+      commentData.range = range;
+      changed = true;
+    }
+
+    // Keep the original anchor of an orphaned comment so it can be found again later
+    if (commentData.orphaned) {
+      continue;
+    }
+    commentData.anchor = createAnchor(
+      content,
+      event.document.offsetAt(toPosition(range.start)),
+      event.document.offsetAt(toPosition(range.end))
+    );
+  }
+
+  if (changed) {
+    refreshCommentThreads(event.document.uri);
+  }
+
+  saveComments(EDIT_SAVE_DELAY);
+}
+
+/**
+ * Check every comment in a freshly opened (or externally reloaded) document
+ * against its stored anchor, moving or orphaning it as needed. Comments saved
+ * before anchoring existed are given an anchor from their current range.
+ */
+function reanchorComments(document: vscode.TextDocument) {
+  const fileComments = getCommentsForUri(document.uri);
+  if (fileComments.length === 0) {
+    return;
+  }
+
+  const content = document.getText();
+  let changed = false;
+
+  for (const commentData of fileComments) {
+
+    const start = document.offsetAt(toPosition(commentData.range.start));
+    const end = document.offsetAt(toPosition(commentData.range.end));
+
+    if (!commentData.anchor) {
+      commentData.anchor = createAnchor(content, start, end);
+      changed = true;
+      continue;
+    }
+
+    if (content.slice(start, end) === commentData.anchor.text && !commentData.orphaned) {
+      continue;
+    }
+
+    changed = relocateComment(commentData, document, content, start) || changed;
+  }
+
+  if (changed) {
+    refreshCommentThreads(document.uri);
+    saveComments(EDIT_SAVE_DELAY);
+  }
+}
+
+/**
+ * Search for a comment's anchor in `content`. Returns true if the comment's
+ * range or orphaned state changed.
+ */
+function relocateComment(commentData: CommentData, document: vscode.TextDocument, content: string, hint: number): boolean {
+  if (!commentData.anchor) {
+    return false;
+  }
+
+  const found = findAnchor(content, commentData.anchor, hint);
+  if (!found) {
+    if (commentData.orphaned) {
+      return false;
     }
+    commentData.orphaned = true;
+    recordActivity(commentData, 'orphaned');
+    updateThreadHeader(commentThreads.get(commentData.id), commentData);
+    return true;
+  }
+
+  const start = document.positionAt(found.start);
+  const end = document.positionAt(found.end);
+  const range = {
+    start: { line: start.line, character: start.character },
+    end: { line: end.line, character: end.character }
+  };
+  if (commentData.orphaned || !rangesEqual(range, commentData.range)) {
+    recordActivity(commentData, 'reanchored', undefined, `line ${start.line + 1}`);
+    updateThreadHeader(commentThreads.get(commentData.id), commentData);
   }
+  commentData.range = range;
+  commentData.anchor = createAnchor(content, found.start, found.end);
+  commentData.orphaned = false;
+  return true;
+}
+
+/**
+ * Recreate the threads for a file so they pick up new ranges and labels.
+ * All threads are rebuilt together to minimise flicker.
+ */
+function refreshCommentThreads(uri: vscode.Uri) {
+  for (const commentData of getCommentsForUri(uri)) {
+    const thread = commentThreads.get(commentData.id);
+    if (!thread) {
+      continue;
+    }
+
+    const newRange = getCommentRange(commentData);
+    if (thread.range?.isEqual(newRange) && thread.label === getThreadLabel(commentData)) {
+      continue;
+    }
 
-  // Batch update all threads at once to minimize flicker
-  for (const { id, newRange, thread } of threadsToUpdate) {
     thread.dispose();
-    const newThread = commentController.createCommentThread(
-      event.document.uri,
-      newRange,
-      thread.comments
-    );
+    const newThread = commentController.createCommentThread(uri, newRange, thread.comments);
     newThread.collapsibleState = thread.collapsibleState;
     newThread.canReply = thread.canReply;
     newThread.contextValue = thread.contextValue;
     newThread.state = thread.state;
-    commentThreads.set(id, newThread);
+    newThread.label = getThreadLabel(commentData);
+    commentThreads.set(commentData.id, newThread);
   }
+}
 
-  // Debounce only the save operation
-  if (saveTimeout) {
-    clearTimeout(saveTimeout);
+function getThreadLabel(commentData: CommentData): string | undefined {
+  const parts = describeDetails(commentData);
+  if (isOutdated(commentData)) {
+    parts.unshift(`Outdated: the commented lines changed since ${shortCommit(commentData.git!.commit)}`);
+  }
+  if (isStaleSuggestion(commentData)) {
+    parts.unshift('Suggestion outdated: the text has changed since it was suggested');
   }
+  if (commentData.orphaned) {
+    parts.unshift('Orphaned: the commented text could not be found');
+  }
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
 
-  saveTimeout = setTimeout(() => {
-    saveComments();
-  }, 500);
+function getCommentRange(commentData: CommentData): vscode.Range {
+  return new vscode.Range(
+    commentData.range.start.line,
+    commentData.range.start.character,
+    commentData.range.end.line,
+    commentData.range.end.character
+  );
+}
+
+function toPosition(position: { line: number; character: number }): vscode.Position {
+  return new vscode.Position(position.line, position.character);
+}
+
+function rangesEqual(a: CommentData['range'], b: CommentData['range']): boolean {
+  return a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character;
+}
+
+function anchorForRange(uri: vscode.Uri, range: vscode.Range): CommentAnchor | undefined {
+  const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+  if (!document) {
+    return undefined;
+  }
+  return createAnchor(document.getText(), document.offsetAt(range.start), document.offsetAt(range.end));
+}
+
+function getAvatarUri(entry: CommentData | CommentReplyData): vscode.Uri | undefined {
+  return entry.identity?.avatarUrl ? vscode.Uri.parse(entry.identity.avatarUrl) : undefined;
+}
+
+/**
+ * Every reaction on offer, with how many gave it, so the picker lists them
+ * all. Reactions are shown by their emoji rather than an icon.
+ */
+function getCommentReactions(entry: CommentData | CommentReplyData): vscode.CommentReaction[] {
+  const me = getActivityAuthor();
+  const emojis = [...REACTIONS, ...Object.keys(entry.reactions ?? {}).filter(emoji => !REACTIONS.includes(emoji))];
+  return emojis.map(emoji => ({
+    label: emoji,
+    iconPath: '',
+    count: entry.reactions?.[emoji]?.length ?? 0,
+    authorHasReacted: hasReacted(entry, emoji, me)
+  }));
+}
+
+function createThreadComment(commentData: CommentData): vscode.Comment {
+  // The activity log goes under the first comment once there is more to it than the comment being created
+  const activity = commentData.activity ?? [];
+  const log = activity.some(entry => entry.action !== 'created')
+    ? `\n\n---\n\n${activity.map(entry => `- ${formatActivity(entry)}`).join('\n')}`
+    : '';
+  const suggestion = commentData.suggestion ? `\n\n${formatSuggestion(commentData)}` : '';
+  return {
+    body: new vscode.MarkdownString(`${formatCommentTime(commentData)}\n\n${commentData.text}${suggestion}${log}`),
+    mode: vscode.CommentMode.Preview,
+    author: {
+      name: commentData.resolved ? `RESOLVED - ${commentData.author}` : commentData.author,
+      iconPath: getAvatarUri(commentData)
+    },
+    reactions: getCommentReactions(commentData),
+    // Offers Apply and Reject on pending suggestions; stale ones can only be rejected
+    contextValue: isPendingSuggestion(commentData)
+      ? isStaleSuggestion(commentData) ? 'outdatedSuggestion' : 'suggestion'
+      : commentData.id
+  };
+}
+
+function createReplyComment(reply: CommentReplyData): vscode.Comment {
+  return {
+    body: new vscode.MarkdownString(`└─ ${formatCommentTime(reply)}\n\n${reply.text}`),
+    mode: vscode.CommentMode.Preview,
+    author: {
+      name: reply.author,
+      iconPath: getAvatarUri(reply)
+    },
+    reactions: getCommentReactions(reply),
+    contextValue: reply.id
+  };
+}
+
+/**
+ * Redraw a thread's first comment after its status or activity log changed,
+ * unless it is being edited.
+ */
+function updateThreadHeader(thread: vscode.CommentThread | undefined, commentData: CommentData) {
+  const [first, ...rest] = thread?.comments ?? [];
+  if (thread && first && first.mode !== vscode.CommentMode.Editing) {
+    thread.comments = [createThreadComment(commentData), ...rest];
+  }
+}
+
+// Build array of all comments (original + replies)
+function buildThreadComments(commentData: CommentData): vscode.Comment[] {
+  return [
+    createThreadComment(commentData),
+    ...(commentData.replies ?? []).map(createReplyComment)
+  ];
+}
+
+function formatCommentTime(entry: { timestamp: string; editedAt?: string }): string {
+  const posted = new Date(entry.timestamp).toLocaleString();
+  return entry.editedAt ? `${posted} (edited ${new Date(entry.editedAt).toLocaleString()})` : posted;
 }
 
 function restoreCommentThreads() {
   // Restore comment threads from stored data
-  for (const commentData of commentStore.comments) {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+  for (const commentData of getAllComments()) {
+    const uri = getCommentUri(commentData);
+    if (!uri || commentData.archived) {
       continue;
     }
+    createCommentThread(commentData, uri);
+  }
+}
 
-    const uri = vscode.Uri.joinPath(workspaceFolder.uri, commentData.filePath);
-    const range = new vscode.Range(
-      commentData.range.start.line,
-      commentData.range.start.character,
-      commentData.range.end.line,
-      commentData.range.end.character
-    );
+function createCommentThread(commentData: CommentData, uri: vscode.Uri) {
+  const range = getCommentRange(commentData);
 
-    const thread = commentController.createCommentThread(uri, range, []);
+  const thread = commentController.createCommentThread(uri, range, []);
 
-    const vsComment: vscode.Comment = {
-      body: new vscode.MarkdownString(`${new Date(commentData.timestamp).toLocaleString()}\n\n${commentData.text}`),
-      mode: vscode.CommentMode.Preview,
-      author: {
-        name: commentData.resolved ? `RESOLVED - ${commentData.author}` : commentData.author
-      }
-    };
+  thread.comments = buildThreadComments(commentData);
+  thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+  thread.contextValue = commentData.id;
+  thread.canReply = true;
+  thread.state = commentData.resolved ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved;
+  thread.label = getThreadLabel(commentData);
 
-    // Build array of all comments (original + replies)
-    const allComments = [vsComment];
+  commentThreads.set(commentData.id, thread);
+}
 
-    // Add replies if they exist
-    if (commentData.replies && commentData.replies.length > 0) {
-      for (const reply of commentData.replies) {
-        const replyComment: vscode.Comment = {
-          body: new vscode.MarkdownString(`└─ ${new Date(reply.timestamp).toLocaleString()}\n\n${reply.text}`),
-          mode: vscode.CommentMode.Preview,
-          author: {
-            name: reply.author
-          },
-          contextValue: reply.id || `${commentData.id}-reply-${reply.timestamp}`
-        };
-        allComments.push(replyComment);
-      }
+/**
+ * Recreate every thread on one file, for when its comments were replaced
+ * rather than updated (inline comments re-read from the document).
+ */
+function recreateFileThreads(uri: vscode.Uri) {
+  for (const [id, thread] of commentThreads) {
+    if (thread.uri.toString() === uri.toString()) {
+      thread.dispose();
+      commentThreads.delete(id);
     }
+  }
+  getCommentsForUri(uri).forEach(commentData => createCommentThread(commentData, uri));
+}
 
-    thread.comments = allComments;
-    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
-    thread.contextValue = commentData.id;
-    thread.canReply = true;
-    thread.state = commentData.resolved ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved;
+/**
+ * Write a change to an inline comment back into its document's CriticMarkup.
+ */
+async function updateInlineDocument(commentData: CommentData) {
+  const uri = commentData.inline ? getCommentUri(commentData) : undefined;
+  if (uri && !await writeInlineComments(uri)) {
+    vscode.window.showErrorMessage('Failed to write the comment into the document');
+  }
+}
 
-    commentThreads.set(commentData.id, thread);
+function rebuildCommentThreads() {
+  for (const thread of commentThreads.values()) {
+    thread.dispose();
   }
+  commentThreads.clear();
+
+  restoreCommentThreads();
+  vscode.workspace.textDocuments.forEach(reanchorComments);
 }
 
-function getCommentsFilePath(): string | undefined {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) {
-    return undefined;
+/**
+ * Bring an archived comment back into the editor. If its file has not
+ * reappeared at the same path, ask which file to attach it to.
+ */
+async function restoreArchivedComment(commentData: CommentData) {
+  let uri = getCommentUri(commentData);
+  let exists = false;
+  if (uri) {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      exists = true;
+    } catch {
+      exists = false;
+    }
   }
 
-  const vscodeDir = path.join(workspaceFolder.uri.fsPath, '.comments');
-  if (!fs.existsSync(vscodeDir)) {
-    fs.mkdirSync(vscodeDir, { recursive: true });
+  if (!exists) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Attach Comment',
+      title: `Choose a file for the comment on ${commentData.filePath}`,
+      defaultUri: uri ? vscode.Uri.joinPath(uri, '..') : undefined
+    });
+
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    uri = picked[0];
+    if (!moveCommentToFile(commentData, uri)) {
+      vscode.window.showErrorMessage('Comments can only be added to files in a workspace folder');
+      return;
+    }
   }
 
-  return path.join(vscodeDir, 'collab-comments.json');
+  delete commentData.archived;
+  recordActivity(commentData, 'restored', undefined, 'from Archived');
+
+  rebuildCommentThreads();
+  saveComments();
+  vscode.window.showInformationMessage(`Comment restored to ${commentData.filePath}`);
 }
 
-function loadComments() {
-  const filePath = getCommentsFilePath();
-  if (!filePath || !fs.existsSync(filePath)) {
-    return;
+async function migrateToShardedStorage() {
+  const folders: vscode.WorkspaceFolder[] = [];
+  for (const { folder } of getFolderStores()) {
+    if (await new SingleFileStorage(folder.uri).exists()) {
+      folders.push(folder);
+    }
   }
 
-  try {
-    const data = fs.readFileSync(filePath, 'utf8');
-    commentStore = JSON.parse(data);
-  } catch (error) {
-    console.error('Failed to load comments:', error);
+  if (folders.length === 0) {
+    vscode.window.showInformationMessage('No collab-comments.json file to migrate.');
+    return;
   }
-}
 
-function saveComments() {
-  const filePath = getCommentsFilePath();
-  if (!filePath) {
-    vscode.window.showErrorMessage('No workspace folder found');
+  const confirm = await vscode.window.showWarningMessage(
+    'Move all comments from collab-comments.json into one file per source file under .comments/files?',
+    { modal: true },
+    'Migrate'
+  );
+
+  if (confirm !== 'Migrate') {
     return;
   }
 
-  try {
-    fs.writeFileSync(filePath, JSON.stringify(commentStore, null, 2), 'utf8');
-    // Refresh tree view
-    if (commentsTreeProvider) {
-      commentsTreeProvider.refresh();
+  // Write anything pending before the old file is removed
+  await flushComments();
+
+  const target = vscode.workspace.workspaceFile
+    ? vscode.ConfigurationTarget.WorkspaceFolder
+    : vscode.ConfigurationTarget.Workspace;
+
+  for (const folder of folders) {
+    const singleFile = new SingleFileStorage(folder.uri);
+    try {
+      const store = (await singleFile.load())?.store ?? { comments: [] };
+      await new ShardedStorage(folder.uri).save(store);
+      // Switching the setting reloads the store from the new location. The old
+      // file is only removed once that has worked, so comments are never left
+      // where the setting does not look.
+      await vscode.workspace.getConfiguration('commentTracker', folder.uri).update('storageFormat', 'sharded', target);
+      await singleFile.remove();
+    } catch (error) {
+      console.error('Failed to migrate comments:', error);
+      vscode.window.showErrorMessage(`Failed to migrate comments for ${folder.name}`);
+      return;
     }
-  } catch (error) {
-    console.error('Failed to save comments:', error);
-    vscode.window.showErrorMessage('Failed to save comments');
   }
+
+  vscode.window.showInformationMessage('Comments migrated to per-file storage.');
 }
 
-export function deactivate() { }
+export function deactivate(): Promise<void> {
+  // Changes still waiting to be batched into a save are written before the window closes
+  return flushComments();
+}
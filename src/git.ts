@@ -0,0 +1,318 @@
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import * as path from 'path';
+import { CommentData, GitRevision } from './types';
+
+/**
+ * Links between comments and Git. New comments record the commit and branch
+ * they were written against; a comment is outdated when the lines it is on
+ * have changed since that commit. Comments scoped to a branch are only shown
+ * while that branch is checked out.
+ */
+
+/** The parts of the built-in Git extension's API used here */
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: {
+    readonly ['HEAD']: { readonly name?: string } | undefined;
+    readonly onDidChange: vscode.Event<void>;
+  };
+}
+
+interface GitApi {
+  readonly repositories: GitRepository[];
+  readonly onDidOpenRepository: vscode.Event<GitRepository>;
+  readonly onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitApi;
+}
+
+export const GIT_REVISION_SCHEME = 'comment-tracker-git';
+
+// Comments whose lines changed since their commit, worked out per file when it is opened or saved
+const outdatedComments = new Set<string>();
+
+// Branch checked out in each repository the Git extension knows about, by root path; undefined when HEAD is detached
+const currentBranches = new Map<string, string | undefined>();
+
+const onDidChangeBranchEmitter = new vscode.EventEmitter<void>();
+export const onDidChangeBranch = onDidChangeBranchEmitter.event;
+
+function git(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    childProcess.execFile('git', args, { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * The commit checked out in the repository containing a file, and the branch
+ * unless HEAD is detached. Undefined outside a repository or before the
+ * first commit.
+ */
+export async function getGitRevision(uri: vscode.Uri): Promise<GitRevision | undefined> {
+  if (uri.scheme !== 'file') {
+    return undefined;
+  }
+  const cwd = path.dirname(uri.fsPath);
+  try {
+    const commit = (await git(['rev-parse', 'HEAD'], cwd)).trim();
+    const branch = (await git(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)).trim();
+    return branch && branch !== 'HEAD' ? { commit, branch } : { commit };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The revision to record on a new comment on `range`. When the commented
+ * lines differ from the same lines at the commit, as they do for a comment on
+ * uncommitted or unsaved text, they are recorded as well, so that committing
+ * the text the comment was written on later does not make the comment
+ * outdated. Line endings are ignored, so a checkout that converts them does
+ * not count as a change.
+ */
+export async function getCommentRevision(document: vscode.TextDocument, range: vscode.Range): Promise<GitRevision | undefined> {
+  const revision = await getGitRevision(document.uri);
+  if (!revision) {
+    return undefined;
+  }
+  const committed = await git(
+    ['show', `${revision.commit}:./${path.basename(document.uri.fsPath)}`],
+    path.dirname(document.uri.fsPath)
+  ).catch(() => undefined);
+  const lines = getLines(document.getText(), range.start.line, range.end.line);
+  return committed !== undefined && getLines(committed, range.start.line, range.end.line) === lines ? revision : { ...revision, lines };
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+function getLines(text: string, start: number, end: number): string {
+  return text.split(/\r?\n/).slice(start, end + 1).join('\n');
+}
+
+/**
+ * Follow the branch checked out in each repository through the Git
+ * extension, firing `onDidChangeBranch` when one changes.
+ */
+export async function watchGitBranches(): Promise<vscode.Disposable> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  const gitExtension = extension && (extension.isActive ? extension.exports : await extension.activate());
+  if (!gitExtension?.enabled) {
+    return new vscode.Disposable(() => undefined);
+  }
+
+  const api = gitExtension.getAPI(1);
+  const repositoryListeners = new Map<GitRepository, vscode.Disposable>();
+
+  const update = (repository: GitRepository) => {
+    const root = repository.rootUri.fsPath;
+    const branch = repository.state.HEAD?.name;
+    if (!currentBranches.has(root) || currentBranches.get(root) !== branch) {
+      currentBranches.set(root, branch);
+      onDidChangeBranchEmitter.fire();
+    }
+  };
+  const open = (repository: GitRepository) => {
+    update(repository);
+    repositoryListeners.set(repository, repository.state.onDidChange(() => update(repository)));
+  };
+  const close = (repository: GitRepository) => {
+    repositoryListeners.get(repository)?.dispose();
+    repositoryListeners.delete(repository);
+    currentBranches.delete(repository.rootUri.fsPath);
+    onDidChangeBranchEmitter.fire();
+  };
+
+  api.repositories.forEach(open);
+  const openListener = api.onDidOpenRepository(open);
+  const closeListener = api.onDidCloseRepository(close);
+
+  return new vscode.Disposable(() => {
+    openListener.dispose();
+    closeListener.dispose();
+    repositoryListeners.forEach(listener => listener.dispose());
+    repositoryListeners.clear();
+    currentBranches.clear();
+  });
+}
+
+/** Root of the innermost repository the Git extension knows about that contains a file */
+function findRepositoryRoot(uri: vscode.Uri): string | undefined {
+  let found: string | undefined;
+  for (const root of currentBranches.keys()) {
+    const relative = path.relative(root, uri.fsPath);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative) && (!found || root.length > found.length)) {
+      found = root;
+    }
+  }
+  return found;
+}
+
+/**
+ * The branch checked out in the repository containing a file, or undefined
+ * when HEAD is detached or the repository is unknown.
+ */
+export function getCurrentBranch(uri: vscode.Uri): string | undefined {
+  const root = findRepositoryRoot(uri);
+  return root === undefined ? undefined : currentBranches.get(root);
+}
+
+/**
+ * Whether a comment on a file belongs on the branch checked out now. Global
+ * comments belong everywhere.
+ */
+export function isInBranchScope(commentData: CommentData, uri: vscode.Uri): boolean {
+  if (!commentData.scope) {
+    return true;
+  }
+  const root = findRepositoryRoot(uri);
+  // Without the Git extension there is no telling which branch is checked out, so show everything
+  return root === undefined || currentBranches.get(root) === commentData.scope;
+}
+
+/**
+ * The `user.name` and `user.email` Git is configured with for a folder, each
+ * undefined when not set.
+ */
+export async function getGitUser(folder: vscode.Uri): Promise<{ name?: string; email?: string }> {
+  if (folder.scheme !== 'file') {
+    return {};
+  }
+  const read = (key: string) => git(['config', key], folder.fsPath).then(value => value.trim() || undefined, () => undefined);
+  const [name, email] = await Promise.all([read('user.name'), read('user.email')]);
+  return { name, email };
+}
+
+/**
+ * Path of a folder within its repository, with a trailing slash, such as
+ * `docs/`; empty at the root or outside a repository.
+ */
+export async function getRepositoryPrefix(folder: vscode.Uri): Promise<string> {
+  try {
+    return (await git(['rev-parse', '--show-prefix'], folder.fsPath)).trim();
+  } catch {
+    return '';
+  }
+}
+
+export function shortCommit(commit: string): string {
+  return commit.slice(0, 7);
+}
+
+export function isOutdated(commentData: CommentData): boolean {
+  return outdatedComments.has(commentData.id);
+}
+
+/**
+ * Lines of the file on disk (zero-based, end exclusive) that differ from the
+ * file at `commit`, from the hunk headers of a zero-context diff.
+ */
+async function getChangedLines(uri: vscode.Uri, commit: string): Promise<Array<{ start: number; end: number }>> {
+  const output = await git(['diff', '--unified=0', '--no-color', '--no-ext-diff', commit, '--', path.basename(uri.fsPath)], path.dirname(uri.fsPath));
+  const changed: Array<{ start: number; end: number }> = [];
+  for (const match of output.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)) {
+    const start = Number(match[1]) - 1;
+    const count = match[2] === undefined ? 1 : Number(match[2]);
+    // A pure deletion is reported as zero lines after the line it follows; count it against that line
+    changed.push(count === 0 ? { start, end: start + 1 } : { start, end: start + count });
+  }
+  return changed;
+}
+
+/**
+ * Work out which of a file's comments are outdated. Only comments made on an
+ * older commit than the one checked out are checked. Comments that recorded
+ * their lines are compared with those, and the rest with their commit.
+ * Returns true if any comment's state changed.
+ */
+export async function updateOutdatedComments(uri: vscode.Uri, comments: CommentData[]): Promise<boolean> {
+  const current = comments.some(commentData => commentData.git) ? await getGitRevision(uri) : undefined;
+  let changed = false;
+  const changedLinesByCommit = new Map<string, Array<{ start: number; end: number }> | undefined>();
+  let fileText: Promise<string | undefined> | undefined;
+
+  for (const commentData of comments) {
+    let outdated = false;
+    const commit = commentData.git?.commit;
+    const recordedLines = commentData.git?.lines;
+    if (current && commit && commit !== current.commit) {
+      const { start, end } = commentData.range;
+      if (recordedLines !== undefined) {
+        // Comment ranges follow the open document, so read the lines from it rather than from disk
+        const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.toString() === uri.toString());
+        fileText ??= document ? Promise.resolve(document.getText()) : readText(uri);
+        const text = await fileText;
+        outdated = text !== undefined && getLines(text, start.line, end.line) !== recordedLines;
+      } else {
+        if (!changedLinesByCommit.has(commit)) {
+          // The commit may be missing from this clone, such as after a shallow fetch
+          changedLinesByCommit.set(commit, await getChangedLines(uri, commit).catch(() => undefined));
+        }
+        outdated = !!changedLinesByCommit.get(commit)?.some(lines => lines.start <= end.line && start.line < lines.end);
+      }
+    }
+
+    if (outdated !== outdatedComments.has(commentData.id)) {
+      if (outdated) {
+        outdatedComments.add(commentData.id);
+      } else {
+        outdatedComments.delete(commentData.id);
+      }
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Serves files as they were at a commit, for the left side of a diff.
+ */
+export class GitRevisionContentProvider implements vscode.TextDocumentContentProvider {
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { commit } = JSON.parse(uri.query) as { commit: string };
+    try {
+      return await git(['show', `${commit}:./${path.basename(uri.fsPath)}`], path.dirname(uri.fsPath));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to read ${path.basename(uri.fsPath)} at ${shortCommit(commit)}: ${error instanceof Error ? error.message : error}`);
+      return '';
+    }
+  }
+}
+
+/**
+ * Open a diff of the file as it was when the comment was written beside the
+ * file as it is now.
+ */
+export async function openRevisionDiff(commentData: CommentData, fileUri: vscode.Uri) {
+  if (!commentData.git) {
+    vscode.window.showInformationMessage('This comment has no Git commit recorded, so there is nothing to compare with');
+    return;
+  }
+
+  const { commit } = commentData.git;
+  const revisionUri = fileUri.with({ scheme: GIT_REVISION_SCHEME, query: JSON.stringify({ commit }) });
+  const name = path.basename(fileUri.fsPath);
+  const start = new vscode.Position(commentData.range.start.line, commentData.range.start.character);
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    revisionUri,
+    fileUri,
+    `${name} (${shortCommit(commit)}) ↔ ${name}`,
+    { selection: new vscode.Range(start, start) }
+  );
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { getGitUser } from './git';
+import { getCurrentMember } from './team';
+import { AuthorIdentity } from './types';
+
+/**
+ * Who is writing comments. The name comes from the default author setting,
+ * the team roster, the Git user or a signed-in GitHub account, in that order
+ * (or with the account before Git, if set to prefer it), and the email from
+ * Git or the roster. Only when none of these says is the user asked, each
+ * time, as before identities were worked out.
+ */
+
+type IdentitySource = 'git' | 'account';
+
+// Scopes other features may already have been allowed, tried in turn so that signing in is never asked for
+const GITHUB_SCOPES = [['read:user'], ['user:email'], ['repo']];
+
+// Worked out once, then kept until the settings, the workspace folders or the signed-in accounts change
+let identityPromise: Promise<AuthorIdentity | undefined> | undefined;
+let knownIdentity: AuthorIdentity | undefined;
+
+function compact(identity: AuthorIdentity): AuthorIdentity {
+  return {
+    name: identity.name,
+    ...(identity.email ? { email: identity.email } : {}),
+    ...(identity.avatarUrl ? { avatarUrl: identity.avatarUrl } : {})
+  };
+}
+
+async function getAccountIdentity(): Promise<AuthorIdentity | undefined> {
+  for (const scopes of GITHUB_SCOPES) {
+    try {
+      const session = await vscode.authentication.getSession('github', scopes, { silent: true });
+      if (session) {
+        return { name: session.account.label, avatarUrl: `https://avatars.githubusercontent.com/u/${session.account.id}` };
+      }
+    } catch {
+      // No GitHub authentication provider
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+async function resolveIdentity(): Promise<AuthorIdentity | undefined> {
+  const config = vscode.workspace.getConfiguration('commentTracker');
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  const gitUser = folder ? await getGitUser(folder.uri) : {};
+
+  const member = getCurrentMember();
+  const name = config.get<string>('defaultAuthor')?.trim() || member?.name;
+  if (name) {
+    return compact({ name, email: gitUser.email ?? member?.email });
+  }
+
+  const fromGit = async () => gitUser.name ? compact({ name: gitUser.name, email: gitUser.email }) : undefined;
+  const sources = config.get<IdentitySource>('authorIdentity', 'git') === 'account'
+    ? [getAccountIdentity, fromGit]
+    : [fromGit, getAccountIdentity];
+  for (const source of sources) {
+    const identity = await source();
+    if (identity) {
+      return identity;
+    }
+  }
+  return undefined;
+}
+
+function resolveKnownIdentity(): Promise<AuthorIdentity | undefined> {
+  identityPromise ??= resolveIdentity().then(identity => knownIdentity = identity);
+  return identityPromise;
+}
+
+/**
+ * The identity to credit new comments and replies to, asking for a name if
+ * it cannot be worked out. Undefined if the user cancels.
+ */
+export async function getAuthorIdentity(): Promise<AuthorIdentity | undefined> {
+  const identity = await resolveKnownIdentity();
+  if (identity) {
+    return identity;
+  }
+
+  const name = await vscode.window.showInputBox({
+    prompt: 'Enter your name (or set a default in settings)',
+    placeHolder: 'Your name',
+    value: process.env.USER || process.env.USERNAME || 'Anonymous'
+  });
+  return name ? { name } : undefined;
+}
+
+/** The identity worked out so far, without waiting or asking */
+export function getKnownIdentity(): AuthorIdentity | undefined {
+  return knownIdentity;
+}
+
+/**
+ * Start working out the identity, and forget it whenever something it was
+ * worked out from changes.
+ */
+export function watchIdentity(): vscode.Disposable {
+  const forget = () => {
+    identityPromise = undefined;
+    knownIdentity = undefined;
+    resolveKnownIdentity();
+  };
+  resolveKnownIdentity();
+
+  return vscode.Disposable.from(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('commentTracker.defaultAuthor') || e.affectsConfiguration('commentTracker.authorIdentity')) {
+        forget();
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(forget),
+    vscode.authentication.onDidChangeSessions(e => {
+      if (e.provider.id === 'github') {
+        forget();
+      }
+    })
+  );
+}
+
+/**
+ * The author fields for a new comment or reply. The identity is only stored
+ * when it says more than the name.
+ */
+export function authorFields(identity: AuthorIdentity): { author: string; identity?: AuthorIdentity } {
+  return identity.email || identity.avatarUrl ? { author: identity.name, identity } : { author: identity.name };
+}
+
+/** The author with their email, for tooltips */
+export function describeAuthor(entry: { author: string; identity?: AuthorIdentity }): string {
+  return entry.identity?.email ? `${entry.author} <${entry.identity.email}>` : entry.author;
+}
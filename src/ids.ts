@@ -0,0 +1,37 @@
+import * as crypto from 'crypto';
+
+/**
+ * Ids for threads and replies. New ones are random UUIDs, so comments made at
+ * the same moment on different machines never collide. Ids that have to come
+ * out the same wherever they are made, such as for an older id being migrated
+ * or a thread pulled from a pull request, are name-based UUIDs.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function createId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * A UUID (version 5 style, from SHA-1) that is always the same for the same
+ * name.
+ */
+export function createNamedId(name: string): string {
+  const hash = crypto.createHash('sha1').update(`comment-tracker:${name}`).digest('hex');
+  const variant = (8 | (parseInt(hash[16], 16) & 3)).toString(16);
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+}
+
+export function isUuid(id: string): boolean {
+  return UUID_PATTERN.test(id);
+}
+
+/**
+ * The UUID for an id from before ids were UUIDs, such as a timestamp. Every
+ * copy of a comments file migrates to the same ids, so copies migrated
+ * separately still merge. UUIDs are returned as they are.
+ */
+export function migrateId(id: string): string {
+  return isUuid(id) ? id : createNamedId(id);
+}
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import { recordActivity } from './activity';
+import { createAnchor, findAnchor, findTextLoosely } from './anchoring';
+import { getFolderStoreForUri, getRelativePath, saveComments } from './commentStore';
+import { parseCriticMarkup } from './criticMarkup';
+import { parseDocxComments } from './docx';
+import { createId } from './ids';
+import { updateMentions } from './team';
+import { CommentData, ImportedComment } from './types';
+
+type ImportSource = 'docx' | 'criticMarkup';
+
+/**
+ * Convert CriticMarkup annotations into comments anchored against the text
+ * with the comment markup removed. Notes without an `@name:` prefix are
+ * credited to `defaultAuthor`.
+ */
+export function criticMarkupToImported(text: string, defaultAuthor: string): { stripped: string; comments: ImportedComment[] } {
+  const { stripped, annotations } = parseCriticMarkup(text);
+  const comments = annotations
+    .filter(annotation => annotation.notes.length > 0)
+    .map(annotation => {
+      const [first, ...rest] = annotation.notes;
+      return {
+        author: first.author ?? defaultAuthor,
+        timestamp: first.timestamp,
+        text: first.text,
+        anchor: createAnchor(stripped, annotation.start, annotation.end),
+        replies: rest.map(note => ({ author: note.author ?? defaultAuthor, timestamp: note.timestamp, text: note.text }))
+      };
+    });
+  return { stripped, comments };
+}
+
+/**
+ * Turn imported comments into comment data for `document`, matching each
+ * one's quoted text against the document content. Comments whose text cannot
+ * be found are placed at the top of the file and marked orphaned.
+ */
+export function createImportedComments(imported: ImportedComment[], document: vscode.TextDocument): CommentData[] {
+  const content = document.getText();
+  const filePath = getRelativePath(document.uri);
+  const now = new Date().toISOString();
+
+  return imported.map(comment => {
+    const id = createId();
+    const found =
+      findAnchor(content, comment.anchor, 0) ??
+      findTextLoosely(content, comment.anchor.text, 0);
+
+    const start = document.positionAt(found?.start ?? 0);
+    const end = document.positionAt(found?.end ?? 0);
+
+    const commentData: CommentData = {
+      id,
+      author: comment.author,
+      timestamp: normalizeTimestamp(comment.timestamp, now),
+      text: comment.text,
+      filePath,
+      range: {
+        start: { line: start.line, character: start.character },
+        end: { line: end.line, character: end.character }
+      },
+      anchor: found ? createAnchor(content, found.start, found.end) : comment.anchor,
+      resolved: comment.resolved ?? false,
+      replies: comment.replies.map(reply => ({
+        id: createId(),
+        author: reply.author,
+        timestamp: normalizeTimestamp(reply.timestamp, now),
+        text: reply.text
+      }))
+    };
+
+    updateMentions(commentData);
+    commentData.replies?.forEach(reply => updateMentions(reply));
+    recordActivity(commentData, 'imported');
+    if (!found) {
+      commentData.orphaned = true;
+    }
+    return commentData;
+  });
+}
+
+function normalizeTimestamp(timestamp: string | undefined, fallback: string): string {
+  if (!timestamp) {
+    return fallback;
+  }
+  const time = Date.parse(timestamp);
+  return isNaN(time) ? fallback : new Date(time).toISOString();
+}
+
+/**
+ * Import review comments from a Word document or a CriticMarkup file and
+ * attach them to a workspace file. Returns the number of comments imported.
+ */
+export async function importComments(): Promise<number> {
+  const source = await vscode.window.showQuickPick(
+    [
+      { label: 'Word document', description: '.docx review comments and replies', value: 'docx' as ImportSource },
+      { label: 'CriticMarkup', description: 'Markdown or Quarto with {>> comments <<}', value: 'criticMarkup' as ImportSource }
+    ],
+    { placeHolder: 'Import comments from' }
+  );
+  if (!source) {
+    return 0;
+  }
+
+  const sourceFiles = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Import',
+    filters: source.value === 'docx'
+      ? { ['Word documents']: ['docx'] }
+      : { ['Markdown']: ['md', 'markdown', 'qmd', 'Rmd'] }
+  });
+  if (!sourceFiles || sourceFiles.length === 0) {
+    return 0;
+  }
+  const sourceUri = sourceFiles[0];
+
+  let imported: ImportedComment[];
+  let stripped: string | undefined;
+  try {
+    const data = await vscode.workspace.fs.readFile(sourceUri);
+    if (source.value === 'docx') {
+      imported = parseDocxComments(Buffer.from(data));
+    } else {
+      const defaultAuthor = vscode.workspace.getConfiguration('commentTracker').get<string>('defaultAuthor')?.trim() || 'Unknown';
+      ({ stripped, comments: imported } = criticMarkupToImported(Buffer.from(data).toString('utf8'), defaultAuthor));
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to read ${sourceUri.fsPath}: ${error instanceof Error ? error.message : error}`);
+    return 0;
+  }
+
+  if (imported.length === 0) {
+    vscode.window.showInformationMessage('No comments found to import.');
+    return 0;
+  }
+
+  const targetUri = await chooseTargetFile(source.value === 'criticMarkup' ? sourceUri : undefined);
+  if (!targetUri) {
+    return 0;
+  }
+
+  const folderStore = getFolderStoreForUri(targetUri);
+  if (!folderStore) {
+    vscode.window.showErrorMessage('Comments can only be added to files in a workspace folder');
+    return 0;
+  }
+
+  const document = await vscode.workspace.openTextDocument(targetUri);
+
+  if (stripped !== undefined && targetUri.toString() === sourceUri.toString()) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: 'Remove the comment markup from the file', strip: true },
+        { label: 'Leave the file as it is', strip: false }
+      ],
+      { placeHolder: 'The comments are being imported into the file they came from' }
+    );
+    if (!choice) {
+      return 0;
+    }
+    if (choice.strip) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(targetUri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), stripped);
+      if (!await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showErrorMessage('Failed to remove the comment markup');
+        return 0;
+      }
+    }
+  }
+
+  const comments = createImportedComments(imported, document);
+  folderStore.store.comments.push(...comments);
+  saveComments();
+
+  const orphaned = comments.filter(comment => comment.orphaned).length;
+  vscode.window.showInformationMessage(
+    `Imported ${comments.length} comment${comments.length === 1 ? '' : 's'} into ${getRelativePath(targetUri)}` +
+    (orphaned > 0 ? `; ${orphaned} could not be matched to the text and were marked orphaned.` : '.')
+  );
+  return comments.length;
+}
+
+async function chooseTargetFile(suggested: vscode.Uri | undefined): Promise<vscode.Uri | undefined> {
+  const candidates = [suggested, vscode.window.activeTextEditor?.document.uri]
+    .filter((uri): uri is vscode.Uri => uri !== undefined && getFolderStoreForUri(uri) !== undefined)
+    .filter((uri, index, all) => all.findIndex(other => other.toString() === uri.toString()) === index);
+
+  const picked = await vscode.window.showQuickPick(
+    [
+      ...candidates.map(uri => ({ label: getRelativePath(uri), uri })),
+      { label: 'Choose another file...', uri: undefined }
+    ],
+    { placeHolder: 'Workspace file to attach the comments to' }
+  );
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.uri) {
+    return picked.uri;
+  }
+
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Attach Comments',
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+  });
+  return files?.[0];
+}
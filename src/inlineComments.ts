@@ -0,0 +1,392 @@
+import * as vscode from 'vscode';
+import { getActivityAuthor } from './activity';
+import { createAnchor } from './anchoring';
+import { getCommentsForUri, getFolderStoreForUri, getRelativePath, saveComments, setInlineComments } from './commentStore';
+import { CriticAnnotation, CriticNote, formatCriticNotes, parseCriticMarkup, removeCommentMarkup } from './criticMarkup';
+import { createId } from './ids';
+import { updateMentions } from './team';
+import { CommentData } from './types';
+
+/**
+ * Inline comment storage for Markdown and Quarto documents. With
+ * `commentTracker.inlineCriticMarkup` turned on, comments in these files live
+ * in the document as CriticMarkup rather than in the comments file: the
+ * document is read into comment threads whenever it changes, and changes made
+ * through the extension are written back as markup.
+ */
+
+const INLINE_EXTENSIONS = ['.md', '.markdown', '.qmd', '.rmd'];
+// Marks a resolved thread at the start of its first comment, since CriticMarkup has no such state
+const RESOLVED_MARKER = '[resolved]';
+
+let hiddenMarkupDecoration: vscode.TextEditorDecorationType | undefined;
+
+export function supportsInlineComments(uri: vscode.Uri): boolean {
+  const name = uri.path.toLowerCase();
+  return INLINE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+export function isInlineEnabled(uri: vscode.Uri): boolean {
+  return supportsInlineComments(uri) &&
+    vscode.workspace.getConfiguration('commentTracker', uri).get<boolean>('inlineCriticMarkup', false);
+}
+
+function getAnnotations(content: string): CriticAnnotation[] {
+  return parseCriticMarkup(content).annotations.filter(annotation => annotation.notes.length > 0);
+}
+
+function toRange(document: vscode.TextDocument, start: number, end: number): CommentData['range'] {
+  const startPosition = document.positionAt(start);
+  const endPosition = document.positionAt(end);
+  return {
+    start: { line: startPosition.line, character: startPosition.character },
+    end: { line: endPosition.line, character: endPosition.character }
+  };
+}
+
+function rangesEqual(a: CommentData['range'], b: CommentData['range']): boolean {
+  return a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character;
+}
+
+/**
+ * Build comment data for a document's annotations. Comments held from an
+ * earlier read keep their id, and the details CriticMarkup cannot hold (edit
+ * history, times not written in the markup), when they still sit on the same
+ * text or still say the same thing.
+ */
+function buildInlineComments(document: vscode.TextDocument, annotations: CriticAnnotation[], previous: CommentData[]): CommentData[] {
+  const content = document.getText();
+  const filePath = getRelativePath(document.uri);
+  const defaultAuthor = getActivityAuthor();
+  const now = new Date().toISOString();
+  const used = new Set<CommentData>();
+
+  return annotations.map(annotation => {
+    const [first, ...rest] = annotation.notes;
+    const resolved = first.text.startsWith(RESOLVED_MARKER);
+    const text = resolved ? first.text.slice(RESOLVED_MARKER.length).trim() : first.text;
+    const range = toRange(document, annotation.textStart, annotation.textEnd);
+
+    const match =
+      previous.find(c => !used.has(c) && rangesEqual(c.range, range)) ??
+      previous.find(c => !used.has(c) && c.text === text && (!first.author || c.author === first.author));
+    if (match) {
+      used.add(match);
+    }
+
+    const id = match?.id ?? createId();
+    return {
+      id,
+      author: first.author ?? match?.author ?? defaultAuthor,
+      timestamp: first.timestamp ?? match?.timestamp ?? now,
+      text,
+      ...(match?.editedAt && match.text === text ? { editedAt: match.editedAt, revisions: match.revisions } : {}),
+      ...(match?.activity ? { activity: match.activity } : {}),
+      filePath,
+      range,
+      replies: rest.map((note, n) => {
+        const previousReply = match?.replies?.[n];
+        return {
+          id: previousReply?.id ?? createId(),
+          author: note.author ?? previousReply?.author ?? defaultAuthor,
+          timestamp: note.timestamp ?? previousReply?.timestamp ?? now,
+          text: note.text,
+          ...(previousReply?.editedAt && previousReply.text === note.text
+            ? { editedAt: previousReply.editedAt, revisions: previousReply.revisions }
+            : {})
+        };
+      }),
+      resolved,
+      anchor: createAnchor(content, annotation.textStart, annotation.textEnd),
+      inline: true
+    };
+  });
+}
+
+/**
+ * Read a document's inline comments into its folder's store, or drop them if
+ * inline comments are turned off for it. Returns true if they changed.
+ */
+export function syncInlineComments(document: vscode.TextDocument): boolean {
+  if (!getFolderStoreForUri(document.uri)) {
+    return false;
+  }
+  if (!isInlineEnabled(document.uri)) {
+    return setInlineComments(document.uri, []);
+  }
+
+  const previous = getCommentsForUri(document.uri).filter(c => c.inline);
+  const comments = buildInlineComments(document, getAnnotations(document.getText()), previous);
+  for (const commentData of comments) {
+    updateMentions(commentData);
+    commentData.replies?.forEach(reply => updateMentions(reply));
+  }
+  return setInlineComments(document.uri, comments);
+}
+
+function toNotes(commentData: CommentData): CriticNote[] {
+  return [
+    {
+      author: commentData.author,
+      timestamp: commentData.timestamp,
+      text: commentData.resolved ? `${RESOLVED_MARKER} ${commentData.text}` : commentData.text
+    },
+    ...(commentData.replies ?? []).map(reply => ({ author: reply.author, timestamp: reply.timestamp, text: reply.text }))
+  ];
+}
+
+/**
+ * Whether the notes written in the document already say what the comment
+ * says. Times and a missing author are not compared, so markup written by
+ * hand is left as it is until the thread really changes.
+ */
+function notesMatch(written: CriticNote[], wanted: CriticNote[]): boolean {
+  return written.length === wanted.length && written.every((note, i) =>
+    note.text === wanted[i].text && (!note.author || note.author === wanted[i].author)
+  );
+}
+
+/**
+ * Whether a new comment on `range` can be written inline. Highlights cannot
+ * nest, and a highlight placed right before another annotation's comments
+ * would swallow them as replies, so the range must stay clear of existing
+ * markup.
+ */
+export function canStoreInline(document: vscode.TextDocument, range: vscode.Range): boolean {
+  if (range.isEmpty) {
+    return false;
+  }
+  const start = document.offsetAt(range.start);
+  const end = document.offsetAt(range.end);
+  return getAnnotations(document.getText()).every(annotation => end < annotation.markupStart || start > annotation.markupEnd);
+}
+
+/**
+ * Bring a document's CriticMarkup in line with its inline comments: markup of
+ * deleted threads is removed, changed threads are rewritten and new ones are
+ * added around their text. Threads that have not changed are left untouched.
+ */
+export async function writeInlineComments(uri: vscode.Uri): Promise<boolean> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const content = document.getText();
+  const comments = getCommentsForUri(uri).filter(c => c.inline);
+  const matched = new Set<CommentData>();
+  const edit = new vscode.WorkspaceEdit();
+  const toVscodeRange = (start: number, end: number) => new vscode.Range(document.positionAt(start), document.positionAt(end));
+
+  for (const annotation of getAnnotations(content)) {
+    const range = toRange(document, annotation.textStart, annotation.textEnd);
+    const commentData = comments.find(c => !matched.has(c) && rangesEqual(c.range, range));
+
+    if (!commentData) {
+      // The thread was deleted: drop its markup but keep the text it highlighted
+      edit.replace(
+        uri,
+        toVscodeRange(annotation.markupStart, annotation.markupEnd),
+        annotation.highlighted ? content.slice(annotation.textStart, annotation.textEnd) : ''
+      );
+      continue;
+    }
+
+    matched.add(commentData);
+    const notes = toNotes(commentData);
+    if (!notesMatch(annotation.notes, notes)) {
+      edit.replace(uri, toVscodeRange(annotation.notesStart, annotation.markupEnd), formatCriticNotes(notes));
+    }
+  }
+
+  for (const commentData of comments) {
+    if (matched.has(commentData)) {
+      continue;
+    }
+    const start = document.offsetAt(new vscode.Position(commentData.range.start.line, commentData.range.start.character));
+    const end = document.offsetAt(new vscode.Position(commentData.range.end.line, commentData.range.end.character));
+    edit.insert(uri, document.positionAt(start), '{==');
+    edit.insert(uri, document.positionAt(end), `==}${formatCriticNotes(toNotes(commentData))}`);
+  }
+
+  if (edit.size === 0) {
+    return true;
+  }
+  return vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * Hide comment markup in an inline document so it reads as plain prose. The
+ * markup on lines holding the cursor or a selection stays visible for editing.
+ */
+export function updateMarkupDecorations(editor: vscode.TextEditor) {
+  if (!isInlineEnabled(editor.document.uri)) {
+    if (hiddenMarkupDecoration) {
+      editor.setDecorations(hiddenMarkupDecoration, []);
+    }
+    return;
+  }
+
+  // Injected CSS is the only way to collapse text in the editor
+  hiddenMarkupDecoration ??= vscode.window.createTextEditorDecorationType({ textDecoration: 'none; display: none;' });
+
+  const document = editor.document;
+  const activeLines = new Set<number>();
+  for (const selection of editor.selections) {
+    for (let line = selection.start.line; line <= selection.end.line; line++) {
+      activeLines.add(line);
+    }
+  }
+
+  const hidden: vscode.Range[] = [];
+  for (const annotation of getAnnotations(document.getText())) {
+    const start = document.positionAt(annotation.markupStart);
+    const end = document.positionAt(annotation.markupEnd);
+    let active = false;
+    for (let line = start.line; line <= end.line && !active; line++) {
+      active = activeLines.has(line);
+    }
+    if (active) {
+      continue;
+    }
+
+    if (annotation.highlighted) {
+      hidden.push(new vscode.Range(start, document.positionAt(annotation.markupStart + 3)));
+      hidden.push(new vscode.Range(document.positionAt(annotation.textEnd), end));
+    } else {
+      hidden.push(new vscode.Range(start, end));
+    }
+  }
+
+  editor.setDecorations(hiddenMarkupDecoration, hidden);
+}
+
+export function disposeMarkupDecorations() {
+  hiddenMarkupDecoration?.dispose();
+  hiddenMarkupDecoration = undefined;
+}
+
+/**
+ * Move the active file's comments between the comments file and inline
+ * CriticMarkup. Returns true if any comment moved.
+ */
+export async function convertCommentStorage(): Promise<boolean> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage('No active editor found');
+    return false;
+  }
+
+  const document = editor.document;
+  if (!supportsInlineComments(document.uri)) {
+    vscode.window.showErrorMessage('Inline comments are only supported in Markdown and Quarto files');
+    return false;
+  }
+  if (!getFolderStoreForUri(document.uri)) {
+    vscode.window.showErrorMessage('Comments can only be added to files in a workspace folder');
+    return false;
+  }
+
+  const sidecarComments = getCommentsForUri(document.uri).filter(c => !c.inline);
+  const annotations = getAnnotations(document.getText());
+  const plural = (count: number) => `${count} comment${count === 1 ? '' : 's'}`;
+
+  const items: (vscode.QuickPickItem & { toInline: boolean })[] = [];
+  if (sidecarComments.length > 0) {
+    items.push({ label: `Move ${plural(sidecarComments.length)} into the document as CriticMarkup`, toInline: true });
+  }
+  if (annotations.length > 0) {
+    items.push({ label: `Move ${plural(annotations.length)} from the document into the comments file`, toInline: false });
+  }
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('No comments to convert in this file.');
+    return false;
+  }
+
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Convert comment storage' });
+  if (!picked) {
+    return false;
+  }
+
+  return picked.toInline
+    ? moveCommentsInline(document, sidecarComments)
+    : moveCommentsToSidecar(document);
+}
+
+async function moveCommentsInline(document: vscode.TextDocument, comments: CommentData[]): Promise<boolean> {
+  if (!isInlineEnabled(document.uri)) {
+    const choice = await vscode.window.showInformationMessage(
+      'Inline comments are turned off. Turn them on for this workspace?',
+      'Turn On'
+    );
+    if (choice !== 'Turn On') {
+      return false;
+    }
+    await vscode.workspace.getConfiguration('commentTracker').update('inlineCriticMarkup', true, vscode.ConfigurationTarget.Workspace);
+  }
+
+  // Place comments one at a time so later ones also stay clear of the markup earlier ones will add
+  const occupied = getAnnotations(document.getText()).map(a => ({ start: a.markupStart, end: a.markupEnd }));
+  const moved: CommentData[] = [];
+  for (const commentData of comments) {
+    const start = document.offsetAt(new vscode.Position(commentData.range.start.line, commentData.range.start.character));
+    const end = document.offsetAt(new vscode.Position(commentData.range.end.line, commentData.range.end.character));
+    const hasDetails = commentData.assignee || commentData.priority || commentData.labels || commentData.dueDate;
+    if (commentData.orphaned || hasDetails || start >= end || !occupied.every(span => end < span.start || start > span.end)) {
+      continue;
+    }
+    occupied.push({ start, end });
+    commentData.inline = true;
+    moved.push(commentData);
+  }
+
+  if (moved.length > 0 && !await writeInlineComments(document.uri)) {
+    moved.forEach(commentData => delete commentData.inline);
+    vscode.window.showErrorMessage('Failed to write the comments into the document');
+    return false;
+  }
+  saveComments();
+
+  const skipped = comments.length - moved.length;
+  vscode.window.showInformationMessage(
+    `Moved ${moved.length} of ${comments.length} comments into the document.` +
+    (skipped > 0 ? ' Orphaned comments, comments overlapping other comments and comments with an assignee, priority, labels or due date were left in the comments file.' : '')
+  );
+  return moved.length > 0;
+}
+
+async function moveCommentsToSidecar(document: vscode.TextDocument): Promise<boolean> {
+  const uri = document.uri;
+  const content = document.getText();
+  // Highlights without a comment stay in the document, so offsets come from removing only the comment markup
+  const { comments: commented } = removeCommentMarkup(content);
+  const annotations = commented.map(({ annotation }) => annotation);
+  const comments = buildInlineComments(document, annotations, getCommentsForUri(uri).filter(c => c.inline));
+
+  const edit = new vscode.WorkspaceEdit();
+  for (const annotation of annotations) {
+    edit.replace(
+      uri,
+      new vscode.Range(document.positionAt(annotation.markupStart), document.positionAt(annotation.markupEnd)),
+      annotation.highlighted ? content.slice(annotation.textStart, annotation.textEnd) : ''
+    );
+  }
+  if (!await vscode.workspace.applyEdit(edit)) {
+    vscode.window.showErrorMessage('Failed to remove the comment markup from the document');
+    return false;
+  }
+
+  // The document now holds the text without comment markup, so those offsets apply to it directly
+  const stripped = document.getText();
+  comments.forEach((commentData, i) => {
+    delete commentData.inline;
+    commentData.range = toRange(document, commented[i].start, commented[i].end);
+    commentData.anchor = createAnchor(stripped, commented[i].start, commented[i].end);
+  });
+
+  setInlineComments(uri, []);
+  getFolderStoreForUri(uri)?.store.comments.push(...comments);
+  saveComments();
+
+  vscode.window.showInformationMessage(`Moved ${comments.length} comment${comments.length === 1 ? '' : 's'} into the comments file.`);
+  return true;
+}
@@ -0,0 +1,147 @@
+import { CommentActivity, CommentData, CommentReactions, CommentStore } from './types';
+
+/**
+ * Three-way merge of comment stores.
+ *
+ * `base` is the store as it was last read from or written to disk, `ours` is
+ * the in-memory store and `theirs` is what is on disk now. Comments and replies
+ * are matched by `id`; a field changed on only one side takes that side's
+ * value, and when both sides changed the same field the local value wins.
+ * Activity logs are append-only, so entries added on either side are kept,
+ * and reactions are merged person by person.
+ */
+export function mergeCommentStores(base: CommentStore, ours: CommentStore, theirs: CommentStore): CommentStore {
+  return {
+    ...theirs,
+    ...ours,
+    comments: mergeById(base.comments, ours.comments, theirs.comments, mergeComment)
+  };
+}
+
+function mergeComment(base: CommentData | undefined, ours: CommentData, theirs: CommentData): CommentData {
+  const merged = mergeEntry(base, ours, theirs);
+  merged.replies = mergeById(base?.replies ?? [], ours.replies ?? [], theirs.replies ?? [], mergeEntry);
+  if (ours.activity || theirs.activity) {
+    merged.activity = mergeActivity(ours.activity ?? [], theirs.activity ?? []);
+  }
+  return merged;
+}
+
+/** Merge a thread's or reply's fields, keeping reactions given or taken back on either side */
+function mergeEntry<T extends { reactions?: CommentReactions }>(base: T | undefined, ours: T, theirs: T): T {
+  const merged = mergeFields(base, ours, theirs);
+  const reactions = mergeReactions(base?.reactions ?? {}, ours.reactions ?? {}, theirs.reactions ?? {});
+  if (Object.keys(reactions).length > 0) {
+    merged.reactions = reactions;
+  } else {
+    delete merged.reactions;
+  }
+  return merged;
+}
+
+/**
+ * A reaction is kept if both sides have it, or if one side gave it since the
+ * base; one taken back on either side stays taken back.
+ */
+function mergeReactions(base: CommentReactions, ours: CommentReactions, theirs: CommentReactions): CommentReactions {
+  const merged: CommentReactions = {};
+  for (const emoji of new Set([...Object.keys(ours), ...Object.keys(theirs)])) {
+    const baseAuthors = base[emoji] ?? [];
+    const ourAuthors = ours[emoji] ?? [];
+    const theirAuthors = theirs[emoji] ?? [];
+    const authors = [...ourAuthors, ...theirAuthors.filter(author => !ourAuthors.includes(author))].filter(author =>
+      (ourAuthors.includes(author) && theirAuthors.includes(author)) || !baseAuthors.includes(author)
+    );
+    if (authors.length > 0) {
+      merged[emoji] = authors;
+    }
+  }
+  return merged;
+}
+
+function mergeActivity(ours: CommentActivity[], theirs: CommentActivity[]): CommentActivity[] {
+  const added = theirs.filter(entry => !ours.some(own => isEqual(own, entry)));
+  return [...ours, ...added].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+function mergeById<T extends { id: string }>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  mergeItem: (base: T | undefined, ours: T, theirs: T) => T
+): T[] {
+  const baseById = new Map(base.map(item => [item.id, item]));
+  const oursById = new Map(ours.map(item => [item.id, item]));
+  const theirsById = new Map(theirs.map(item => [item.id, item]));
+
+  // Keep local ordering, then append anything only the other side has
+  const ids = [...ours.map(item => item.id), ...theirs.map(item => item.id).filter(id => !oursById.has(id))];
+  const merged: T[] = [];
+
+  for (const id of ids) {
+    const baseItem = baseById.get(id);
+    const ourItem = oursById.get(id);
+    const theirItem = theirsById.get(id);
+
+    if (ourItem && theirItem) {
+      merged.push(mergeItem(baseItem, ourItem, theirItem));
+    } else if (ourItem) {
+      // Deleted on disk: drop it unless we changed it locally since
+      if (!baseItem || !isEqual(baseItem, ourItem)) {
+        merged.push(ourItem);
+      }
+    } else if (theirItem) {
+      // Deleted locally: drop it unless it was changed on disk since
+      if (!baseItem || !isEqual(baseItem, theirItem)) {
+        merged.push(theirItem);
+      }
+    }
+  }
+
+  return merged;
+}
+
+function mergeFields<T extends object>(base: T | undefined, ours: T, theirs: T): T {
+  if (!base) {
+    return { ...theirs, ...ours };
+  }
+
+  const merged = { ...ours } as Record<string, unknown>;
+  const baseRecord = base as Record<string, unknown>;
+  const theirRecord = theirs as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+
+  for (const key of keys) {
+    if (isEqual(merged[key], baseRecord[key]) && !isEqual(theirRecord[key], baseRecord[key])) {
+      if (theirRecord[key] === undefined) {
+        delete merged[key];
+      } else {
+        merged[key] = theirRecord[key];
+      }
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Structural equality for plain JSON data. Key order is ignored, since stores
+ * loaded from different backends do not keep the same property order.
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord).filter(key => aRecord[key] !== undefined);
+  const bKeys = Object.keys(bRecord).filter(key => bRecord[key] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every(key => isEqual(aRecord[key], bRecord[key]));
+}
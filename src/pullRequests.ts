@@ -0,0 +1,441 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Review threads on pull requests (GitHub) and merge requests (GitLab),
+ * behind one interface so the sync does not care which it is talking to.
+ * Line numbers are one-based and refer to the new side of the diff.
+ */
+
+export type PullRequestHost = 'github' | 'gitlab';
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  /** Address of the author's profile picture */
+  avatarUrl?: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface ReviewThread {
+  /** Empty for a thread just created on GitHub, whose id only comes back when threads are listed */
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  resolved: boolean;
+  comments: ReviewComment[];
+}
+
+export interface PullRequestProvider {
+  /** Name for messages, such as "GitHub" */
+  readonly name: string;
+  getThreads(): Promise<ReviewThread[]>;
+  createThread(path: string, startLine: number, endLine: number, body: string): Promise<ReviewThread>;
+  reply(thread: ReviewThread, body: string): Promise<ReviewComment>;
+  setResolved(thread: ReviewThread, resolved: boolean): Promise<void>;
+}
+
+/** A pull request, as parsed from its web address */
+export interface PullRequestLink {
+  host: PullRequestHost;
+  url: string;
+  /** Base address of the REST API */
+  apiUrl: string;
+  /** `owner/name` on GitHub, the project path on GitLab */
+  repository: string;
+  number: number;
+}
+
+const AUTHENTICATION: Record<PullRequestHost, { providerId: string; scopes: string[] }> = {
+  github: { providerId: 'github', scopes: ['repo'] },
+  gitlab: { providerId: 'gitlab', scopes: ['api'] }
+};
+
+/**
+ * Parse a pull request or merge request address, such as
+ * `https://github.com/owner/repo/pull/12` or
+ * `https://gitlab.com/group/project/-/merge_requests/5`. Self-hosted servers
+ * work too; the `pullRequestApiUrl` setting overrides the API address worked
+ * out from the host.
+ */
+export function parsePullRequestUrl(text: string): PullRequestLink | undefined {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return undefined;
+  }
+
+  const configuredApiUrl = vscode.workspace.getConfiguration('commentTracker').get<string>('pullRequestApiUrl')?.trim().replace(/\/+$/, '');
+  const origin = url.origin;
+
+  const gitlab = url.pathname.match(/^\/(.+?)\/-\/merge_requests\/(\d+)/);
+  if (gitlab) {
+    return {
+      host: 'gitlab',
+      url: url.toString(),
+      apiUrl: configuredApiUrl || `${origin}/api/v4`,
+      repository: gitlab[1],
+      number: Number(gitlab[2])
+    };
+  }
+
+  const github = url.pathname.match(/^\/([^/]+\/[^/]+)\/pull\/(\d+)/);
+  if (github) {
+    return {
+      host: 'github',
+      url: url.toString(),
+      apiUrl: configuredApiUrl || (url.hostname === 'github.com' ? 'https://api.github.com' : `${origin}/api/v3`),
+      repository: github[1],
+      number: Number(github[2])
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Sign in through VS Code's accounts and create a provider for the pull
+ * request. GitHub sign-in is built in; GitLab needs an extension that
+ * provides a `gitlab` authentication provider.
+ */
+export async function createPullRequestProvider(link: PullRequestLink): Promise<PullRequestProvider> {
+  const { providerId, scopes } = AUTHENTICATION[link.host];
+  let session: vscode.AuthenticationSession;
+  try {
+    session = await vscode.authentication.getSession(providerId, scopes, { createIfNone: true });
+  } catch (error) {
+    throw new Error(
+      link.host === 'gitlab'
+        ? `Could not sign in to GitLab. Install an extension that provides GitLab sign-in, such as GitLab Workflow. (${error instanceof Error ? error.message : error})`
+        : `Could not sign in to GitHub: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return link.host === 'github'
+    ? new GitHubProvider(link, session.accessToken)
+    : new GitLabProvider(link, session.accessToken);
+}
+
+interface HttpResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+function request(method: string, url: string, token: string, body?: unknown): Promise<HttpResponse> {
+  const target = new URL(url);
+  const client = target.protocol === 'http:' ? http : https;
+  const payload = body === undefined ? undefined : JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(target, {
+      method,
+      headers: {
+        ['Accept']: 'application/json',
+        ['Authorization']: `Bearer ${token}`,
+        ['User-Agent']: 'comment-tracker',
+        ...(payload !== undefined ? { ['Content-Type']: 'application/json' } : {})
+      }
+    }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString('utf8') }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.setTimeout(30000, () => req.destroy(new Error(`Request to ${target.host} timed out`)));
+    if (payload !== undefined) {
+      req.write(payload);
+    }
+    req.end();
+  });
+}
+
+/** Send a JSON request, failing with the server's own message on an error status */
+async function requestJson<T>(method: string, url: string, token: string, body?: unknown): Promise<{ data: T; headers: http.IncomingHttpHeaders }> {
+  const response = await request(method, url, token, body);
+  let data: unknown;
+  try {
+    data = response.body ? JSON.parse(response.body) : undefined;
+  } catch {
+    data = undefined;
+  }
+  if (response.status < 200 || response.status >= 300) {
+    const message = (data as { message?: unknown } | undefined)?.message;
+    throw new Error(`${method} ${new URL(url).pathname} failed with ${response.status}${message ? `: ${typeof message === 'string' ? message : JSON.stringify(message)}` : ''}`);
+  }
+  return { data: data as T, headers: response.headers };
+}
+
+interface GitHubThreadNode {
+  id: string;
+  isResolved: boolean;
+  path: string;
+  line: number | null;
+  startLine: number | null;
+  originalLine: number | null;
+  originalStartLine: number | null;
+  comments: GitHubCommentPage;
+}
+
+interface GitHubCommentPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: Array<{ databaseId: number; author: { login: string; avatarUrl: string } | null; body: string; createdAt: string }>;
+}
+
+interface GitHubThreadsResponse {
+  repository: {
+    pullRequest: {
+      headRefOid: string;
+      reviewThreads: { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: GitHubThreadNode[] };
+    } | null;
+  } | null;
+}
+
+const GITHUB_THREADS_QUERY = `
+query($owner: String!, $name: String!, $number: Int!, $cursor: String) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      headRefOid
+      reviewThreads(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id isResolved path line startLine originalLine originalStartLine
+          comments(first: 100) { pageInfo { hasNextPage endCursor } nodes { databaseId author { login avatarUrl } body createdAt } }
+        }
+      }
+    }
+  }
+}`;
+
+// The rest of the comments on a thread with more than fit in the first page
+const GITHUB_THREAD_COMMENTS_QUERY = `
+query($id: ID!, $cursor: String) {
+  node(id: $id) {
+    ... on PullRequestReviewThread {
+      comments(first: 100, after: $cursor) { pageInfo { hasNextPage endCursor } nodes { databaseId author { login avatarUrl } body createdAt } }
+    }
+  }
+}`;
+
+/**
+ * GitHub pull request review threads. Threads, and whether they are resolved,
+ * are only available through the GraphQL API; comments are posted through
+ * REST, which publishes them straight away rather than in a pending review.
+ */
+export class GitHubProvider implements PullRequestProvider {
+  readonly name = 'GitHub';
+  private headCommit: string | undefined;
+
+  constructor(private readonly link: PullRequestLink, private readonly token: string) { }
+
+  private get graphqlUrl(): string {
+    return this.link.apiUrl.endsWith('/api/v3')
+      ? this.link.apiUrl.replace(/\/api\/v3$/, '/api/graphql')
+      : `${this.link.apiUrl}/graphql`;
+  }
+
+  private get pullUrl(): string {
+    return `${this.link.apiUrl}/repos/${this.link.repository}/pulls/${this.link.number}`;
+  }
+
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const { data } = await requestJson<{ data?: T; errors?: Array<{ message: string }> }>('POST', this.graphqlUrl, this.token, { query, variables });
+    if (data.errors?.length) {
+      throw new Error(data.errors.map(error => error.message).join('; '));
+    }
+    return data.data as T;
+  }
+
+  async getThreads(): Promise<ReviewThread[]> {
+    const [owner, name] = this.link.repository.split('/');
+    const threads: ReviewThread[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const result: GitHubThreadsResponse = await this.graphql<GitHubThreadsResponse>(GITHUB_THREADS_QUERY, { owner, name, number: this.link.number, cursor });
+      const pullRequest = result.repository?.pullRequest;
+      if (!pullRequest) {
+        throw new Error(`Pull request #${this.link.number} not found in ${this.link.repository}`);
+      }
+      this.headCommit = pullRequest.headRefOid;
+
+      for (const node of pullRequest.reviewThreads.nodes) {
+        // Threads on lines that have since changed only know where they were
+        const endLine = node.line ?? node.originalLine ?? 1;
+        threads.push({
+          id: node.id,
+          path: node.path,
+          startLine: node.line !== null ? node.startLine ?? endLine : node.originalStartLine ?? endLine,
+          endLine,
+          resolved: node.isResolved,
+          comments: await this.getAllComments(node.id, node.comments)
+        });
+      }
+      cursor = pullRequest.reviewThreads.pageInfo.hasNextPage ? pullRequest.reviewThreads.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return threads;
+  }
+
+  /** A thread's comments, fetching the pages after the one that came with the thread */
+  private async getAllComments(threadId: string, firstPage: GitHubCommentPage): Promise<ReviewComment[]> {
+    const nodes = [...firstPage.nodes];
+    let pageInfo = firstPage.pageInfo;
+
+    while (pageInfo.hasNextPage && pageInfo.endCursor) {
+      const result: { node: { comments: GitHubCommentPage } | null } = await this.graphql(GITHUB_THREAD_COMMENTS_QUERY, { id: threadId, cursor: pageInfo.endCursor });
+      if (!result.node) {
+        break;
+      }
+      nodes.push(...result.node.comments.nodes);
+      pageInfo = result.node.comments.pageInfo;
+    }
+
+    return nodes.map(comment => ({
+      id: String(comment.databaseId),
+      author: comment.author?.login ?? 'ghost',
+      avatarUrl: comment.author?.avatarUrl,
+      body: comment.body,
+      createdAt: comment.createdAt
+    }));
+  }
+
+  async createThread(path: string, startLine: number, endLine: number, body: string): Promise<ReviewThread> {
+    if (!this.headCommit) {
+      const { data } = await requestJson<{ head: { sha: string } }>('GET', this.pullUrl, this.token);
+      this.headCommit = data.head.sha;
+    }
+
+    const { data } = await requestJson<GitHubRestComment>('POST', `${this.pullUrl}/comments`, this.token, {
+      body,
+      ['commit_id']: this.headCommit,
+      path,
+      line: endLine,
+      side: 'RIGHT',
+      ...(startLine < endLine ? { ['start_line']: startLine, ['start_side']: 'RIGHT' } : {})
+    });
+    return { id: '', path, startLine, endLine, resolved: false, comments: [toReviewComment(data)] };
+  }
+
+  async reply(thread: ReviewThread, body: string): Promise<ReviewComment> {
+    const { data } = await requestJson<GitHubRestComment>('POST', `${this.pullUrl}/comments/${thread.comments[0].id}/replies`, this.token, { body });
+    return toReviewComment(data);
+  }
+
+  async setResolved(thread: ReviewThread, resolved: boolean): Promise<void> {
+    const mutation = resolved
+      ? 'mutation($id: ID!) { resolveReviewThread(input: { threadId: $id }) { thread { id } } }'
+      : 'mutation($id: ID!) { unresolveReviewThread(input: { threadId: $id }) { thread { id } } }';
+    await this.graphql(mutation, { id: thread.id });
+  }
+}
+
+interface GitHubRestComment {
+  id: number;
+  user: { login: string; ['avatar_url']: string } | null;
+  body: string;
+  ['created_at']: string;
+}
+
+function toReviewComment(comment: GitHubRestComment): ReviewComment {
+  return { id: String(comment.id), author: comment.user?.login ?? 'ghost', avatarUrl: comment.user?.avatar_url, body: comment.body, createdAt: comment.created_at };
+}
+
+interface GitLabNote {
+  id: number;
+  type: string | null;
+  system: boolean;
+  body: string;
+  author: { username: string; ['avatar_url']?: string | null };
+  ['created_at']: string;
+  resolved?: boolean;
+  position?: {
+    ['new_path']: string;
+    ['new_line']: number | null;
+    ['old_line']: number | null;
+    ['line_range']?: { start: { ['new_line']: number | null } } | null;
+  };
+}
+
+interface GitLabDiscussion {
+  id: string;
+  notes: GitLabNote[];
+}
+
+/**
+ * GitLab merge request discussions on the diff. GitLab anchors a new
+ * discussion to a single line, so threads are posted on their last line.
+ */
+export class GitLabProvider implements PullRequestProvider {
+  readonly name = 'GitLab';
+
+  constructor(private readonly link: PullRequestLink, private readonly token: string) { }
+
+  private get mergeRequestUrl(): string {
+    return `${this.link.apiUrl}/projects/${encodeURIComponent(this.link.repository)}/merge_requests/${this.link.number}`;
+  }
+
+  async getThreads(): Promise<ReviewThread[]> {
+    const threads: ReviewThread[] = [];
+    let page: string | undefined = '1';
+
+    while (page) {
+      const { data, headers }: { data: GitLabDiscussion[]; headers: http.IncomingHttpHeaders } = await requestJson<GitLabDiscussion[]>('GET', `${this.mergeRequestUrl}/discussions?per_page=100&page=${page}`, this.token);
+      for (const discussion of data) {
+        const notes = discussion.notes.filter(note => !note.system);
+        const position = notes[0]?.position;
+        if (notes[0]?.type !== 'DiffNote' || !position) {
+          continue;
+        }
+        const endLine = position.new_line ?? position.old_line ?? 1;
+        threads.push({
+          id: discussion.id,
+          path: position.new_path,
+          startLine: position.line_range?.start.new_line ?? endLine,
+          endLine,
+          resolved: !!notes[0].resolved,
+          comments: notes.map(toGitLabComment)
+        });
+      }
+      page = (headers['x-next-page'] as string | undefined) || undefined;
+    }
+
+    return threads;
+  }
+
+  async createThread(path: string, startLine: number, endLine: number, body: string): Promise<ReviewThread> {
+    const { data: mergeRequest } = await requestJson<{ ['diff_refs']: { ['base_sha']: string; ['start_sha']: string; ['head_sha']: string } }>(
+      'GET', this.mergeRequestUrl, this.token
+    );
+    const refs = mergeRequest.diff_refs;
+    const { data } = await requestJson<GitLabDiscussion>('POST', `${this.mergeRequestUrl}/discussions`, this.token, {
+      body,
+      position: {
+        ['position_type']: 'text',
+        ['base_sha']: refs.base_sha,
+        ['start_sha']: refs.start_sha,
+        ['head_sha']: refs.head_sha,
+        ['old_path']: path,
+        ['new_path']: path,
+        ['new_line']: endLine
+      }
+    });
+    return { id: data.id, path, startLine: endLine, endLine, resolved: false, comments: data.notes.map(toGitLabComment) };
+  }
+
+  async reply(thread: ReviewThread, body: string): Promise<ReviewComment> {
+    const { data } = await requestJson<GitLabNote>('POST', `${this.mergeRequestUrl}/discussions/${thread.id}/notes`, this.token, { body });
+    return toGitLabComment(data);
+  }
+
+  async setResolved(thread: ReviewThread, resolved: boolean): Promise<void> {
+    await requestJson('PUT', `${this.mergeRequestUrl}/discussions/${thread.id}?resolved=${resolved}`, this.token);
+  }
+}
+
+function toGitLabComment(note: GitLabNote): ReviewComment {
+  return { id: String(note.id), author: note.author.username, avatarUrl: note.author.avatar_url ?? undefined, body: note.body, createdAt: note.created_at };
+}
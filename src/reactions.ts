@@ -0,0 +1,53 @@
+import { CommentReactions } from './types';
+
+/**
+ * Emoji reactions on comments and replies, for acknowledging something
+ * without writing a reply. Each reaction lists who gave it, so everyone can
+ * give each reaction once and take it back.
+ */
+
+/** The reactions offered, in the order they are shown */
+export const REACTIONS = ['👍', '👎', '👀', '✅', '🎉', '❤️', '😕', '🚀'];
+
+interface Reactable {
+  reactions?: CommentReactions;
+}
+
+export function hasReacted(entry: Reactable, emoji: string, author: string): boolean {
+  return !!entry.reactions?.[emoji]?.includes(author);
+}
+
+/**
+ * Give a reaction, or take it back if `author` already gave it. Returns true
+ * if the reaction is now given.
+ */
+export function toggleReaction(entry: Reactable, emoji: string, author: string): boolean {
+  const reactions = { ...entry.reactions };
+  const authors = reactions[emoji] ?? [];
+  const reacted = !authors.includes(author);
+  reactions[emoji] = reacted ? [...authors, author] : authors.filter(a => a !== author);
+
+  if (reactions[emoji].length === 0) {
+    delete reactions[emoji];
+  }
+  if (Object.keys(reactions).length > 0) {
+    entry.reactions = reactions;
+  } else {
+    delete entry.reactions;
+  }
+  return reacted;
+}
+
+/** Reactions that have been given, with how many times, offered ones first */
+export function getReactionCounts(entry: Reactable): Array<{ emoji: string; count: number }> {
+  const given = Object.entries(entry.reactions ?? {}).filter(([, authors]) => authors.length > 0);
+  const order = (emoji: string) => REACTIONS.includes(emoji) ? REACTIONS.indexOf(emoji) : REACTIONS.length;
+  return given
+    .sort(([a], [b]) => order(a) - order(b))
+    .map(([emoji, authors]) => ({ emoji, count: authors.length }));
+}
+
+/** Reaction counts in a line, such as `👍 2 · 👀 1`; empty when there are none */
+export function formatReactions(entry: Reactable, separator = ' · '): string {
+  return getReactionCounts(entry).map(({ emoji, count }) => `${emoji} ${count}`).join(separator);
+}
@@ -0,0 +1,389 @@
+import * as vscode from 'vscode';
+import { recordActivity } from './activity';
+import { createAnchor } from './anchoring';
+import { FolderCommentStore, getFolderComments, getFolderStoreForUri, getFolderStores, saveComments } from './commentStore';
+import { getRepositoryPrefix } from './git';
+import { authorFields } from './identity';
+import { createNamedId } from './ids';
+import {
+  createPullRequestProvider,
+  parsePullRequestUrl,
+  PullRequestLink,
+  PullRequestProvider,
+  ReviewComment,
+  ReviewThread
+} from './pullRequests';
+import { updateMentions } from './team';
+import { CommentData, CommentReplyData } from './types';
+
+/**
+ * Two-way sync between comment threads and the review threads on a pull
+ * request. Threads are matched through the id of their first review comment
+ * and replies through their own review comment ids, so each is only ever
+ * published or pulled once. Resolving a thread on either side resolves it on
+ * the other; when both sides changed since the last sync the local state wins,
+ * as it does when merging the comments file.
+ */
+
+// Pull request linked to each workspace folder, by folder URI
+const LINKS_KEY = 'commentTracker.pullRequests';
+
+export interface SyncSummary {
+  published: number;
+  pulled: number;
+  replies: number;
+  resolutions: number;
+  /** Linked threads no longer on the pull request, which are left alone */
+  missing: number;
+  /** Pulled threads on files that are not in the workspace folder */
+  skipped: number;
+  failures: string[];
+}
+
+async function chooseFolderStore(): Promise<FolderCommentStore | undefined> {
+  const folderStores = getFolderStores();
+  if (folderStores.length < 2) {
+    return folderStores[0];
+  }
+  const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Workspace folder whose comments to sync' });
+  return folder && getFolderStoreForUri(folder.uri);
+}
+
+function getLinks(memento: vscode.Memento): Record<string, string> {
+  return memento.get<Record<string, string>>(LINKS_KEY) ?? {};
+}
+
+/**
+ * Ask for the pull request to sync a folder's comments with, and remember it.
+ */
+export async function linkPullRequest(memento: vscode.Memento, folderStore?: FolderCommentStore): Promise<PullRequestLink | undefined> {
+  folderStore ??= await chooseFolderStore();
+  if (!folderStore) {
+    return undefined;
+  }
+
+  const key = folderStore.folder.uri.toString();
+  const url = await vscode.window.showInputBox({
+    prompt: `Pull request or merge request to sync the comments in ${folderStore.folder.name} with`,
+    placeHolder: 'https://github.com/owner/repo/pull/12 or https://gitlab.com/group/project/-/merge_requests/5',
+    value: getLinks(memento)[key] ?? '',
+    validateInput: value => parsePullRequestUrl(value) ? undefined : 'Enter the address of a GitHub pull request or GitLab merge request'
+  });
+  const link = url ? parsePullRequestUrl(url) : undefined;
+  if (link) {
+    await memento.update(LINKS_KEY, { ...getLinks(memento), [key]: link.url });
+  }
+  return link;
+}
+
+/**
+ * Sync a workspace folder's comments with its linked pull request, asking
+ * for one the first time. Returns true if any comment changed.
+ */
+export async function syncWithPullRequest(memento: vscode.Memento): Promise<boolean> {
+  const folderStore = await chooseFolderStore();
+  if (!folderStore) {
+    vscode.window.showErrorMessage('Open a workspace folder to sync its comments');
+    return false;
+  }
+
+  const linkedUrl = getLinks(memento)[folderStore.folder.uri.toString()];
+  const link = (linkedUrl && parsePullRequestUrl(linkedUrl)) || await linkPullRequest(memento, folderStore);
+  if (!link) {
+    return false;
+  }
+
+  let summary: SyncSummary;
+  try {
+    const provider = await createPullRequestProvider(link);
+    const publish = await confirmFirstPublish(folderStore, link, provider);
+    if (publish === undefined) {
+      return false;
+    }
+    summary = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Syncing comments with ${provider.name} ${link.repository}#${link.number}` },
+      () => syncComments(folderStore, link, provider, publish)
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to sync with the pull request: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+
+  const changed = summary.published + summary.pulled + summary.replies + summary.resolutions > 0;
+  if (changed) {
+    saveComments();
+  }
+
+  const parts = [
+    `${summary.published} thread${summary.published === 1 ? '' : 's'} published`,
+    `${summary.pulled} pulled`,
+    `${summary.replies} repl${summary.replies === 1 ? 'y' : 'ies'} synced`,
+    `${summary.resolutions} resolved state${summary.resolutions === 1 ? '' : 's'} updated`
+  ];
+  if (summary.missing > 0) {
+    parts.push(`${summary.missing} no longer on the pull request`);
+  }
+  if (summary.skipped > 0) {
+    parts.push(`${summary.skipped} on files outside the workspace folder skipped`);
+  }
+  const message = `Pull request sync: ${parts.join(', ')}.`;
+  if (summary.failures.length > 0) {
+    vscode.window.showWarningMessage(`${message} ${summary.failures.length} failed: ${summary.failures.join('; ')}`);
+  } else {
+    vscode.window.showInformationMessage(message);
+  }
+  return changed;
+}
+
+/**
+ * Threads that would be published by a sync: those never published, other
+ * than inline and archived ones, which are never synced, and orphaned ones.
+ */
+function getUnpublished(folderStore: FolderCommentStore): CommentData[] {
+  return getFolderComments(folderStore).filter(c => !c.inline && !c.archived && !c.review && !c.orphaned);
+}
+
+/**
+ * The first sync with a pull request would publish every thread in the
+ * folder at once, so ask first, and keep asking until something has been
+ * published there; threads pulled from it do not count. Resolves to whether
+ * to publish, or undefined if the sync was cancelled.
+ */
+export async function confirmFirstPublish(folderStore: FolderCommentStore, link: PullRequestLink, provider: PullRequestProvider): Promise<boolean | undefined> {
+  const unpublished = getUnpublished(folderStore);
+  const published = folderStore.store.comments.some(c =>
+    c.review?.pullRequest === link.url && c.activity?.some(entry => entry.action === 'published'));
+  if (published || unpublished.length === 0) {
+    return true;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Publish ${unpublished.length} comment thread${unpublished.length === 1 ? '' : 's'} to ${provider.name} ${link.repository}#${link.number}? ` +
+      'They will be visible to everyone who can see the pull request.',
+    { modal: true },
+    'Publish',
+    'Sync Without Publishing'
+  );
+  return choice === undefined ? undefined : choice === 'Publish';
+}
+
+/**
+ * Keep a deleted reply's review comment from being pulled back on the next
+ * sync.
+ */
+export function markReviewReplyDeleted(commentData: CommentData, reply: CommentReplyData) {
+  if (commentData.review && reply.reviewCommentId) {
+    commentData.review.deletedReplies = [...commentData.review.deletedReplies ?? [], reply.reviewCommentId];
+  }
+}
+
+/** Let a restored reply's review comment be matched again */
+export function unmarkReviewReplyDeleted(commentData: CommentData, reply: CommentReplyData) {
+  const deletedReplies = commentData.review?.deletedReplies?.filter(id => id !== reply.reviewCommentId);
+  if (!commentData.review || !deletedReplies) {
+    return;
+  }
+  if (deletedReplies.length > 0) {
+    commentData.review.deletedReplies = deletedReplies;
+  } else {
+    delete commentData.review.deletedReplies;
+  }
+}
+
+function formatBody(entry: { author: string; text: string }): string {
+  return `**${entry.author}:** ${entry.text}`;
+}
+
+function getRemoteAuthor(comment: ReviewComment) {
+  return authorFields({ name: comment.author, ...(comment.avatarUrl ? { avatarUrl: comment.avatarUrl } : {}) });
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Review comments are numbered from one and cover whole lines. A selection
+ * ending at the start of a line does not include that line.
+ */
+function getReviewLines(commentData: CommentData): { startLine: number; endLine: number } {
+  const { start, end } = commentData.range;
+  const endLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+  return { startLine: start.line + 1, endLine: endLine + 1 };
+}
+
+/**
+ * Publish, pull and reconcile a folder's threads with the pull request.
+ * Threads are only published when `publish` is set.
+ */
+export async function syncComments(
+  folderStore: FolderCommentStore,
+  link: PullRequestLink,
+  provider: PullRequestProvider,
+  publish: boolean
+): Promise<SyncSummary> {
+  const summary: SyncSummary = { published: 0, pulled: 0, replies: 0, resolutions: 0, missing: 0, skipped: 0, failures: [] };
+  const prefix = await getRepositoryPrefix(folderStore.folder.uri);
+  const indexThreads = (list: ReviewThread[]) => new Map(list.filter(t => t.comments.length > 0).map(t => [t.comments[0].id, t]));
+
+  let threads = indexThreads(await provider.getThreads());
+  // Inline comments have nowhere to keep their link, so they are never synced
+  const comments = getFolderComments(folderStore).filter(c => !c.inline && !c.archived);
+  const isLinked = (c: CommentData) => c.review?.pullRequest === link.url;
+  const linked = comments.filter(isLinked);
+
+  // Publish threads that have not been published yet, with their replies
+  for (const commentData of publish ? getUnpublished(folderStore) : []) {
+    const { startLine, endLine } = getReviewLines(commentData);
+    try {
+      const thread = await provider.createThread(prefix + commentData.filePath, startLine, endLine, formatBody(commentData));
+      commentData.review = { pullRequest: link.url, commentId: thread.comments[0].id, resolved: false };
+      recordActivity(commentData, 'published', undefined, `to ${provider.name} ${link.repository}#${link.number}`);
+      summary.published++;
+      for (const reply of commentData.replies ?? []) {
+        reply.reviewCommentId = (await provider.reply(thread, formatBody(reply))).id;
+      }
+    } catch (error) {
+      summary.failures.push(`${commentData.filePath}:${startLine}: ${describeError(error)}`);
+    }
+  }
+
+  // Replies in both directions on threads published before
+  summary.missing = linked.filter(c => !threads.has(c.review!.commentId)).length;
+  for (const commentData of linked) {
+    const thread = threads.get(commentData.review!.commentId);
+    if (!thread) {
+      continue;
+    }
+    commentData.replies ??= [];
+
+    for (const reply of commentData.replies.filter(r => !r.reviewCommentId)) {
+      try {
+        reply.reviewCommentId = (await provider.reply(thread, formatBody(reply))).id;
+        summary.replies++;
+      } catch (error) {
+        summary.failures.push(`reply on ${commentData.filePath}:${commentData.range.start.line + 1}: ${describeError(error)}`);
+      }
+    }
+
+    // Replies deleted here stay deleted
+    const known = new Set([...commentData.replies.map(reply => reply.reviewCommentId), ...commentData.review!.deletedReplies ?? []]);
+    for (const remote of thread.comments.slice(1).filter(comment => !known.has(comment.id))) {
+      const reply: CommentReplyData = {
+        id: createNamedId(`${link.url}#${remote.id}`),
+        ...getRemoteAuthor(remote),
+        timestamp: remote.createdAt,
+        text: remote.body,
+        reviewCommentId: remote.id
+      };
+      updateMentions(reply);
+      commentData.replies.push(reply);
+      recordActivity(commentData, 'replied', remote.author, `on ${provider.name}`);
+      summary.replies++;
+    }
+  }
+
+  // Pull threads started on the pull request. Threads linked to deleted comments are not brought back.
+  const linkedIds = new Set(folderStore.store.comments.filter(isLinked).map(c => c.review!.commentId));
+  for (const thread of threads.values()) {
+    if (linkedIds.has(thread.comments[0].id)) {
+      continue;
+    }
+    const commentData = thread.path.startsWith(prefix) ? await createCommentFromThread(folderStore, thread, prefix, link, provider) : undefined;
+    if (commentData) {
+      folderStore.store.comments.push(commentData);
+      summary.pulled++;
+    } else {
+      summary.skipped++;
+    }
+  }
+
+  // Threads just published only get an id to resolve them by once listed
+  if (summary.published > 0) {
+    threads = indexThreads(await provider.getThreads());
+  }
+
+  for (const commentData of comments.filter(isLinked)) {
+    const review = commentData.review!;
+    const thread = threads.get(review.commentId);
+    if (!thread) {
+      continue;
+    }
+
+    const resolved = !!commentData.resolved;
+    if (resolved !== review.resolved) {
+      if (thread.resolved !== resolved) {
+        try {
+          await provider.setResolved(thread, resolved);
+          summary.resolutions++;
+        } catch (error) {
+          summary.failures.push(`resolving ${commentData.filePath}:${commentData.range.start.line + 1}: ${describeError(error)}`);
+          continue;
+        }
+      }
+    } else if (thread.resolved !== review.resolved) {
+      commentData.resolved = thread.resolved;
+      recordActivity(commentData, thread.resolved ? 'resolved' : 'reopened', undefined, `on ${provider.name}`);
+      summary.resolutions++;
+    }
+    review.resolved = !!commentData.resolved;
+  }
+
+  return summary;
+}
+
+/**
+ * A comment thread for a review thread started on the pull request, over the
+ * lines it was left on. Undefined when the file is not in the folder.
+ */
+async function createCommentFromThread(
+  folderStore: FolderCommentStore,
+  thread: ReviewThread,
+  prefix: string,
+  link: PullRequestLink,
+  provider: PullRequestProvider
+): Promise<CommentData | undefined> {
+  const filePath = thread.path.slice(prefix.length);
+  const uri = vscode.Uri.joinPath(folderStore.folder.uri, filePath);
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    return undefined;
+  }
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  const lastLine = document.lineCount - 1;
+  const startLine = Math.min(Math.max(thread.startLine - 1, 0), lastLine);
+  const endLine = Math.min(Math.max(thread.endLine - 1, startLine), lastLine);
+  const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+
+  const [first, ...rest] = thread.comments;
+  // The same on every machine that pulls the thread, so copies pulled separately merge
+  const id = createNamedId(`${link.url}#${first.id}`);
+  const commentData: CommentData = {
+    id,
+    ...getRemoteAuthor(first),
+    timestamp: first.createdAt,
+    text: first.body,
+    filePath,
+    range: {
+      start: { line: range.start.line, character: range.start.character },
+      end: { line: range.end.line, character: range.end.character }
+    },
+    anchor: createAnchor(document.getText(), document.offsetAt(range.start), document.offsetAt(range.end)),
+    resolved: thread.resolved,
+    replies: rest.map(comment => ({
+      id: createNamedId(`${link.url}#${comment.id}`),
+      ...getRemoteAuthor(comment),
+      timestamp: comment.createdAt,
+      text: comment.body,
+      reviewCommentId: comment.id
+    })),
+    review: { pullRequest: link.url, commentId: first.id, resolved: thread.resolved }
+  };
+
+  updateMentions(commentData);
+  commentData.replies?.forEach(reply => updateMentions(reply));
+  recordActivity(commentData, 'imported', first.author, `from ${provider.name} ${link.repository}#${link.number}`);
+  return commentData;
+}
@@ -0,0 +1,350 @@
+import { migrateId } from './ids';
+import { mergeCommentStores } from './merge';
+import { CommentData, CommentReplyData } from './types';
+
+/**
+ * The format of stored comment files, how older formats are brought up to
+ * date, and how as much as possible is recovered from a file that is damaged,
+ * hand-edited or left with Git conflict markers.
+ *
+ * Every file is written with a `version`. Reading a file migrates it one
+ * version at a time to `SCHEMA_VERSION`, then checks each thread; threads
+ * that cannot be used are dropped and fields with the wrong type are removed,
+ * and each is reported as a problem rather than failing the whole file.
+ */
+
+/**
+ * 0: a bare array of comments, as written by hand or by early exports
+ * 1: `{ comments }` with no version, as written before files were versioned
+ * 2: `{ version, comments }`, with `replies` and `resolved` always present
+ * 3: thread and reply ids are UUIDs
+ */
+export const SCHEMA_VERSION = 3;
+
+export interface ParsedCommentFile {
+  comments: CommentData[];
+  /** The source file a shard holds comments for, if the file says */
+  filePath?: string;
+  /** What was wrong with the file, one message per problem; empty for a healthy file */
+  problems: string[];
+}
+
+type JsonRecord = Record<string, unknown>;
+
+/** Each migration takes a file from the version it is listed under to the next */
+const MIGRATIONS: Array<(data: unknown) => unknown> = [
+  data => ({ comments: data }),
+  data => {
+    const record = data as JsonRecord;
+    return {
+      ...record,
+      comments: Array.isArray(record.comments)
+        ? record.comments.map(comment => isRecord(comment) ? { ...comment, replies: comment.replies ?? [], resolved: comment.resolved ?? false } : comment)
+        : record.comments
+    };
+  },
+  data => {
+    const record = data as JsonRecord;
+    return { ...record, comments: Array.isArray(record.comments) ? record.comments.map(migrateIds) : record.comments };
+  }
+];
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function migrateEntryId(entry: unknown): unknown {
+  return isRecord(entry) && (isString(entry.id) || typeof entry.id === 'number') ? { ...entry, id: migrateId(String(entry.id)) } : entry;
+}
+
+/** Give a thread and its replies UUIDs in place of older ids */
+function migrateIds(comment: unknown): unknown {
+  const migrated = migrateEntryId(comment);
+  return isRecord(migrated) && Array.isArray(migrated.replies) ? { ...migrated, replies: migrated.replies.map(migrateEntryId) } : migrated;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+function isIdentity(value: unknown): boolean {
+  return isRecord(value) && isString(value.name) &&
+    (value.email === undefined || isString(value.email)) &&
+    (value.avatarUrl === undefined || isString(value.avatarUrl));
+}
+
+function isPosition(value: unknown): boolean {
+  return isRecord(value) &&
+    Number.isInteger(value.line) && (value.line as number) >= 0 &&
+    Number.isInteger(value.character) && (value.character as number) >= 0;
+}
+
+const isReactions = (value: unknown) => isRecord(value) && Object.values(value).every(isStringArray);
+
+/** Checks for the optional fields of a thread; a field that fails is dropped */
+const OPTIONAL_FIELDS: Record<string, (value: unknown) => boolean> = {
+  identity: isIdentity,
+  reactions: isReactions,
+  mentions: isStringArray,
+  editedAt: isString,
+  revisions: value => Array.isArray(value) && value.every(revision => isRecord(revision) && isString(revision.text) && isString(revision.timestamp)),
+  anchor: value => isRecord(value) && isString(value.text) && isString(value.before) && isString(value.after),
+  suggestion: value => isRecord(value) && isString(value.text) && isString(value.original) &&
+    (value.status === undefined || value.status === 'applied' || value.status === 'rejected') &&
+    (value.decidedBy === undefined || isString(value.decidedBy)) &&
+    (value.decidedAt === undefined || isString(value.decidedAt)),
+  git: value => isRecord(value) && isString(value.commit) && (value.branch === undefined || isString(value.branch)) &&
+    (value.lines === undefined || isString(value.lines)),
+  scope: isString,
+  resolved: isBoolean,
+  assignee: isString,
+  priority: value => value === 'high' || value === 'medium' || value === 'low',
+  labels: isStringArray,
+  dueDate: value => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value),
+  orphaned: isBoolean,
+  archived: isBoolean,
+  deleted: isBoolean,
+  review: value => isRecord(value) && isString(value.pullRequest) && isString(value.commentId) && isBoolean(value.resolved) &&
+    (value.deletedReplies === undefined || (Array.isArray(value.deletedReplies) && value.deletedReplies.every(isString))),
+  activity: value => Array.isArray(value) && value.every(entry => isRecord(entry) && isString(entry.action) && isString(entry.author) && isString(entry.timestamp))
+};
+
+/** Checks for the optional fields of a reply that are worth repairing */
+const REPLY_OPTIONAL_FIELDS: Record<string, (value: unknown) => boolean> = {
+  identity: isIdentity,
+  reactions: isReactions
+};
+
+function describeComment(value: JsonRecord, index: number): string {
+  return `comments[${index}]${isString(value.id) || typeof value.id === 'number' ? ` (id ${value.id})` : ''}`;
+}
+
+/**
+ * Check one stored thread, repairing what can be repaired. Returns undefined
+ * for a thread missing something it cannot do without.
+ */
+function validateComment(value: unknown, index: number, filePath: string | undefined, problems: string[]): CommentData | undefined {
+  if (!isRecord(value)) {
+    problems.push(`comments[${index}]: not an object`);
+    return undefined;
+  }
+  const where = describeComment(value, index);
+  const comment: JsonRecord = { ...value };
+
+  // Hand-edited files sometimes have numeric ids
+  if (typeof comment.id === 'number') {
+    comment.id = String(comment.id);
+  }
+  if (filePath !== undefined) {
+    comment.filePath = filePath;
+  }
+
+  const missing = ['id', 'author', 'timestamp', 'text', 'filePath'].filter(key => !isString(comment[key]));
+  if (missing.length > 0) {
+    problems.push(`${where}: missing or invalid ${missing.join(', ')}; thread dropped`);
+    return undefined;
+  }
+  if (!isRecord(comment.range) || !isPosition(comment.range.start) || !isPosition(comment.range.end)) {
+    problems.push(`${where}: missing or invalid range; thread dropped`);
+    return undefined;
+  }
+
+  for (const [key, check] of Object.entries(OPTIONAL_FIELDS)) {
+    if (comment[key] !== undefined && !check(comment[key])) {
+      problems.push(`${where}: invalid ${key}; field removed`);
+      delete comment[key];
+    }
+  }
+
+  const replies = Array.isArray(comment.replies) ? comment.replies : [];
+  if (comment.replies !== undefined && !Array.isArray(comment.replies)) {
+    problems.push(`${where}: replies is not a list; replies removed`);
+  }
+  comment.replies = replies.filter((reply, replyIndex) => {
+    const valid = isRecord(reply) && ['id', 'author', 'timestamp', 'text'].every(key => isString(reply[key]));
+    if (!valid) {
+      problems.push(`${where}: replies[${replyIndex}] is missing its id, author, timestamp or text; reply dropped`);
+      return false;
+    }
+    for (const [key, check] of Object.entries(REPLY_OPTIONAL_FIELDS)) {
+      if (reply[key] !== undefined && !check(reply[key])) {
+        problems.push(`${where}: replies[${replyIndex}] has an invalid ${key}; field removed`);
+        delete reply[key];
+      }
+    }
+    return true;
+  }) as CommentReplyData[];
+  comment.resolved ??= false;
+  // Only ever set in memory for comments read from CriticMarkup
+  delete comment.inline;
+
+  return comment as unknown as CommentData;
+}
+
+/**
+ * Migrate parsed JSON to the current version and validate its threads.
+ */
+function readCommentData(data: unknown, filePath: string | undefined, problems: string[]): { comments: CommentData[]; filePath?: string } {
+  let version: number;
+  if (Array.isArray(data)) {
+    version = 0;
+  } else if (isRecord(data)) {
+    version = data.version === undefined ? 1 : Number(data.version);
+  } else {
+    problems.push('The file does not contain a comments object');
+    return { comments: [], filePath };
+  }
+
+  if (!Number.isInteger(version) || version < 0) {
+    problems.push(`Unknown version ${JSON.stringify((data as JsonRecord).version)}; read as the current version`);
+    version = SCHEMA_VERSION;
+  } else if (version > SCHEMA_VERSION) {
+    problems.push(`Written by a newer version of Comment Tracker (file version ${version}, this version reads ${SCHEMA_VERSION}); fields it does not know about are kept`);
+  }
+  for (; version < SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+  const record = data as JsonRecord;
+
+  const shardPath = isString(record.filePath) ? record.filePath : filePath;
+  if (!Array.isArray(record.comments)) {
+    problems.push('The file has no comments list');
+    return { comments: [], filePath: shardPath };
+  }
+
+  const ids = new Set<string>();
+  const comments: CommentData[] = [];
+  record.comments.forEach((value, index) => {
+    const comment = validateComment(value, index, shardPath, problems);
+    if (!comment) {
+      return;
+    }
+    if (ids.has(comment.id)) {
+      problems.push(`${describeComment(value as JsonRecord, index)}: duplicate id; thread dropped`);
+      return;
+    }
+    ids.add(comment.id);
+    comments.push(comment);
+  });
+  return { comments, filePath: shardPath };
+}
+
+/**
+ * Pick complete threads out of text that is not valid JSON, by trying every
+ * balanced `{...}` that could be a thread. The file's version is unknown, so
+ * older ids are migrated whatever it was.
+ */
+function salvageComments(text: string, filePath: string | undefined): CommentData[] {
+  const comments: CommentData[] = [];
+  const ids = new Set<string>();
+  let start = text.indexOf('{');
+
+  while (start !== -1) {
+    const end = findClosingBrace(text, start);
+    let next = start + 1;
+    if (end !== -1) {
+      try {
+        const comment = validateComment(migrateIds(JSON.parse(text.slice(start, end + 1))), comments.length, filePath, []);
+        if (comment && !ids.has(comment.id)) {
+          ids.add(comment.id);
+          comments.push(comment);
+          next = end + 1;
+        }
+      } catch {
+        // Not a complete object; look inside it
+      }
+    }
+    start = text.indexOf('{', next);
+  }
+  return comments;
+}
+
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The two sides of a file with Git conflict markers: ours keeps the lines
+ * between `<<<<<<<` and `=======`, theirs the lines between `=======` and
+ * `>>>>>>>`. The common ancestor in diff3-style conflicts is left out.
+ */
+function splitConflict(text: string): [string, string] | undefined {
+  if (!/^<{7}(?: |$)/m.test(text)) {
+    return undefined;
+  }
+
+  const ours: string[] = [];
+  const theirs: string[] = [];
+  let section: 'both' | 'ours' | 'base' | 'theirs' = 'both';
+  for (const line of text.split(/\r?\n/)) {
+    if (/^<{7}(?: |$)/.test(line)) {
+      section = 'ours';
+    } else if (/^\|{7}(?: |$)/.test(line) && section === 'ours') {
+      section = 'base';
+    } else if (/^={7}$/.test(line) && section !== 'both') {
+      section = 'theirs';
+    } else if (/^>{7}(?: |$)/.test(line) && section === 'theirs') {
+      section = 'both';
+    } else {
+      if (section === 'both' || section === 'ours') {
+        ours.push(line);
+      }
+      if (section === 'both' || section === 'theirs') {
+        theirs.push(line);
+      }
+    }
+  }
+  return [ours.join('\n'), theirs.join('\n')];
+}
+
+function parseText(text: string, filePath: string | undefined, problems: string[]): { comments: CommentData[]; filePath?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    // A shard names its source file once at the top; comments files name it in every thread
+    const shardPath = filePath !== undefined ? text.match(/"filePath"\s*:\s*("(?:[^"\\]|\\.)*")/)?.[1] : undefined;
+    const sourcePath = shardPath ? JSON.parse(shardPath) as string : filePath;
+    const comments = salvageComments(text, sourcePath);
+    problems.push(`Not valid JSON (${error instanceof Error ? error.message : error}); ${comments.length} complete thread${comments.length === 1 ? '' : 's'} recovered`);
+    return { comments, filePath: sourcePath };
+  }
+  return readCommentData(data, filePath, problems);
+}
+
+/**
+ * Read a comments file or shard. `filePath` is the source file a shard is
+ * for, used when the shard itself does not say. Never throws: whatever can be
+ * read is returned along with a description of everything that could not.
+ */
+export function parseCommentFile(text: string, filePath?: string): ParsedCommentFile {
+  const problems: string[] = [];
+  const sides = splitConflict(text);
+  if (!sides) {
+    return { ...parseText(text, filePath, problems), problems };
+  }
+
+  // Keep the threads from both sides, as a merge of the two would
+  const [ours, theirs] = sides.map(side => parseText(side, filePath, problems));
+  const merged = mergeCommentStores({ comments: [] }, { comments: ours.comments }, { comments: theirs.comments });
+  problems.unshift('The file contains Git conflict markers; threads from both sides of the conflict were kept');
+  return { comments: merged.comments, filePath: ours.filePath ?? theirs.filePath, problems };
+}
@@ -0,0 +1,304 @@
+import * as vscode from 'vscode';
+import { getAllComments, getDeletedComments, getDisplayPath } from './commentStore';
+import { CommentData } from './types';
+
+/**
+ * Workspace-wide comment search. A query is made of words, which must all
+ * appear somewhere in a thread (comment text, replies, authors or the quoted
+ * source text), and filters:
+ *
+ * - `author:name` threads with a comment or reply by someone whose name contains `name`
+ * - `assignee:name`, `label:name`
+ * - `file:glob` threads on files matching the glob, such as `file:*.qmd` or `file:chapters/**`
+ * - `is:resolved`, `is:unresolved` (or `is:open`), `is:orphaned`, `is:archived`, `is:deleted`
+ *
+ * Words and filter values can be quoted to include spaces.
+ */
+
+export interface SearchQuery {
+  terms: string[];
+  authors: string[];
+  assignees: string[];
+  labels: string[];
+  files: RegExp[];
+  states: string[];
+}
+
+export interface SearchHit {
+  comment: CommentData;
+  /** Where the first word matched, for display */
+  matchedIn: 'comment' | 'reply' | 'author' | 'quoted text';
+  snippet: string;
+}
+
+const STATES = ['resolved', 'unresolved', 'open', 'orphaned', 'archived', 'deleted'];
+const SNIPPET_CONTEXT = 40;
+
+export function parseSearchQuery(text: string): SearchQuery {
+  const query: SearchQuery = { terms: [], authors: [], assignees: [], labels: [], files: [], states: [] };
+
+  for (const match of text.matchAll(/(?:(\w+):)?(?:"([^"]*)"|(\S+))/g)) {
+    const key = match[1]?.toLowerCase();
+    const value = (match[2] ?? match[3]).trim();
+    if (!value) {
+      continue;
+    }
+
+    switch (key) {
+      case 'author':
+        query.authors.push(value.toLowerCase());
+        break;
+      case 'assignee':
+        query.assignees.push(value.toLowerCase());
+        break;
+      case 'label':
+        query.labels.push(value.toLowerCase());
+        break;
+      case 'file':
+        query.files.push(globToRegExp(value));
+        break;
+      case 'is':
+        if (STATES.includes(value.toLowerCase())) {
+          query.states.push(value.toLowerCase());
+        }
+        break;
+      default:
+        // An unknown prefix is just part of a word, such as a time like 10:30
+        query.terms.push((key ? `${match[1]}:${value}` : value).toLowerCase());
+    }
+  }
+  return query;
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return Object.values(query).every(values => values.length === 0);
+}
+
+/**
+ * Glob to regular expression: `**` matches across folders, `*` and `?` within
+ * a path segment. A glob without a slash is matched against file names only.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        pattern += '/?';
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(glob.includes('/') ? `^${pattern}$` : `(^|/)${pattern}$`, 'i');
+}
+
+function matchesState(comment: CommentData, state: string): boolean {
+  switch (state) {
+    case 'resolved':
+      return !!comment.resolved;
+    case 'unresolved':
+    case 'open':
+      return !comment.resolved;
+    case 'orphaned':
+      return !!comment.orphaned;
+    case 'archived':
+      return !!comment.archived;
+    default:
+      return !!comment.deleted;
+  }
+}
+
+function makeSnippet(text: string, term: string): string {
+  const flat = text.replace(/\s+/g, ' ');
+  const index = flat.toLowerCase().indexOf(term);
+  if (index === -1 || flat.length <= SNIPPET_CONTEXT * 2) {
+    return flat;
+  }
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, index + term.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+export function matchComment(comment: CommentData, query: SearchQuery): SearchHit | undefined {
+  const replies = comment.replies ?? [];
+  const authors = [comment.author, ...replies.map(reply => reply.author)].map(author => author.toLowerCase());
+
+  if (!query.states.every(state => matchesState(comment, state))) {
+    return undefined;
+  }
+  // Archived and deleted threads are only searched when asked for
+  if ((comment.archived && !query.states.includes('archived')) || (comment.deleted && !query.states.includes('deleted'))) {
+    return undefined;
+  }
+  if (!query.authors.every(needle => authors.some(author => author.includes(needle)))) {
+    return undefined;
+  }
+  if (!query.assignees.every(needle => comment.assignee?.toLowerCase().includes(needle))) {
+    return undefined;
+  }
+  if (!query.labels.every(needle => comment.labels?.some(label => label.toLowerCase() === needle))) {
+    return undefined;
+  }
+  if (!query.files.every(pattern => pattern.test(comment.filePath))) {
+    return undefined;
+  }
+
+  const fields: Array<{ matchedIn: SearchHit['matchedIn']; text: string }> = [
+    { matchedIn: 'comment', text: comment.text },
+    ...replies.map(reply => ({ matchedIn: 'reply' as const, text: `${reply.author}: ${reply.text}` })),
+    { matchedIn: 'author', text: authors.join(' ') },
+    { matchedIn: 'quoted text', text: comment.anchor?.text ?? '' }
+  ];
+  const haystack = fields.map(field => field.text.toLowerCase()).join('\n');
+  if (!query.terms.every(term => haystack.includes(term))) {
+    return undefined;
+  }
+
+  const [firstTerm] = query.terms;
+  const field = (firstTerm && fields.find(f => f.text.toLowerCase().includes(firstTerm))) || fields[0];
+  return { comment, matchedIn: field.matchedIn, snippet: makeSnippet(field.text, firstTerm ?? '') };
+}
+
+export function searchComments(query: SearchQuery): SearchHit[] {
+  const comments = query.states.includes('deleted') ? getDeletedComments() : getAllComments();
+  return comments
+    .map(comment => matchComment(comment, query))
+    .filter((hit): hit is SearchHit => !!hit)
+    .sort((a, b) =>
+      getDisplayPath(a.comment).localeCompare(getDisplayPath(b.comment)) ||
+      a.comment.range.start.line - b.comment.range.start.line ||
+      a.comment.range.start.character - b.comment.range.start.character
+    );
+}
+
+/**
+ * The results of the last search, kept in their own view. The query is run
+ * again whenever the comments change.
+ */
+export class SearchResultsProvider implements vscode.TreeDataProvider<SearchResultItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<SearchResultItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private queryText: string | undefined;
+  private treeView: vscode.TreeView<SearchResultItem> | undefined;
+
+  setTreeView(treeView: vscode.TreeView<SearchResultItem>) {
+    this.treeView = treeView;
+  }
+
+  getQuery(): string | undefined {
+    return this.queryText;
+  }
+
+  showResults(queryText: string | undefined) {
+    this.queryText = queryText;
+    vscode.commands.executeCommand('setContext', 'commentTracker.hasSearchResults', !!queryText);
+    this.refresh();
+  }
+
+  refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: SearchResultItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: SearchResultItem): SearchResultItem[] {
+    if (element || !this.queryText) {
+      return [];
+    }
+
+    const hits = searchComments(parseSearchQuery(this.queryText));
+    if (this.treeView) {
+      this.treeView.message = `${hits.length} result${hits.length === 1 ? '' : 's'} for "${this.queryText}"`;
+    }
+    return hits.map(hit => new SearchResultItem(hit));
+  }
+}
+
+export class SearchResultItem extends vscode.TreeItem {
+  constructor(public readonly hit: SearchHit) {
+    super(hit.snippet, vscode.TreeItemCollapsibleState.None);
+
+    const { comment } = hit;
+    this.description = `${comment.author} · ${getDisplayPath(comment)}:${comment.range.start.line + 1}`;
+    this.tooltip = `${comment.author} - ${new Date(comment.timestamp).toLocaleString()}\n\n${comment.text}` +
+      (hit.matchedIn !== 'comment' ? `\n\nMatched in ${hit.matchedIn}` : '');
+    this.iconPath = new vscode.ThemeIcon(comment.resolved ? 'pass' : 'comment');
+    if (!comment.archived && !comment.deleted) {
+      this.command = {
+        command: 'comment-tracker.navigateToComment',
+        title: 'Go to Comment',
+        arguments: [comment]
+      };
+    }
+  }
+}
+
+function toQuickPickItem(hit: SearchHit): vscode.QuickPickItem & { hit: SearchHit } {
+  const { comment } = hit;
+  return {
+    label: `$(${comment.resolved ? 'pass' : 'comment'}) ${hit.snippet}`,
+    description: `${comment.author} · ${getDisplayPath(comment)}:${comment.range.start.line + 1}`,
+    detail: hit.matchedIn !== 'comment' ? `Matched in ${hit.matchedIn}` : undefined,
+    // The results are already filtered by the query; stop the Quick Pick filtering them again
+    alwaysShow: true,
+    hit
+  };
+}
+
+/**
+ * Search as you type in a Quick Pick. Picking a result goes to it; the button
+ * in the title bar keeps the results in the Search Results view.
+ */
+export async function searchCommentsInteractive(resultsProvider: SearchResultsProvider) {
+  const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { hit: SearchHit }>();
+  const showInViewButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('list-flat'),
+    tooltip: 'Show Results in the Search Results View'
+  };
+  quickPick.title = 'Search Comments';
+  quickPick.placeholder = 'Words to find, author:name, file:*.qmd, is:resolved, is:unresolved, label:name';
+  quickPick.buttons = [showInViewButton];
+  quickPick.matchOnDescription = false;
+  quickPick.value = resultsProvider.getQuery() ?? '';
+
+  const update = (value: string) => {
+    const query = parseSearchQuery(value);
+    quickPick.items = isEmptyQuery(query) ? [] : searchComments(query).map(toQuickPickItem);
+  };
+  update(quickPick.value);
+
+  const disposables = [
+    quickPick.onDidChangeValue(update),
+    quickPick.onDidTriggerButton(async button => {
+      if (button === showInViewButton && quickPick.value.trim()) {
+        resultsProvider.showResults(quickPick.value.trim());
+        quickPick.hide();
+        await vscode.commands.executeCommand('commentTrackerSearchView.focus');
+      }
+    }),
+    quickPick.onDidAccept(async () => {
+      const [selected] = quickPick.selectedItems;
+      quickPick.hide();
+      if (selected && !selected.hit.comment.archived && !selected.hit.comment.deleted) {
+        await vscode.commands.executeCommand('comment-tracker.navigateToComment', selected.hit.comment);
+      }
+    })
+  ];
+
+  quickPick.onDidHide(() => {
+    disposables.forEach(disposable => disposable.dispose());
+    quickPick.dispose();
+  });
+  quickPick.show();
+}
@@ -0,0 +1,337 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { parseCommentFile, SCHEMA_VERSION } from './schema';
+import { CommentData, CommentStore } from './types';
+
+export type StorageFormat = 'single' | 'sharded';
+
+/**
+ * What was read from storage. Files with problems are read as far as possible
+ * and copied to the backups folder untouched before anything overwrites them.
+ */
+export interface LoadResult {
+  store: CommentStore;
+  /** Each prefixed with the file it was found in */
+  problems: string[];
+  /** Paths of the backups made of files with problems */
+  backups: string[];
+}
+
+/**
+ * A place comments are persisted to. All file access goes through
+ * `vscode.workspace.fs`, so comments work in remote and virtual workspaces.
+ * Files are written to a temporary file and renamed into place, so a crash
+ * never leaves one half written, and the previous contents are kept as
+ * rolling backups.
+ */
+export interface CommentStorage {
+  /** Glob, relative to the workspace folder, matching every file the backend writes */
+  readonly watchPattern: string;
+  /** Resolves to undefined when nothing has been stored yet */
+  load(): Promise<LoadResult | undefined>;
+  save(store: CommentStore): Promise<void>;
+  /** Cheap summary of what is on disk, used to notice changes made by someone else */
+  fingerprint(): Promise<string | undefined>;
+}
+
+export const COMMENTS_DIR = '.comments';
+const BACKUPS_DIR = 'backups';
+const ROLLING_BACKUPS_DIR = 'rolling';
+// Keep this many earlier versions of each file, at most one per interval
+const ROLLING_BACKUP_COUNT = 5;
+const ROLLING_BACKUP_INTERVAL = 10 * 60 * 1000;
+
+// When each file was last copied to the rolling backups, by URI
+const lastRollingBackups = new Map<string, number>();
+
+export function createCommentStorage(rootUri: vscode.Uri, format: StorageFormat): CommentStorage {
+  return format === 'sharded' ? new ShardedStorage(rootUri) : new SingleFileStorage(rootUri);
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch (error) {
+    if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace a file's contents without ever leaving it partly written: write a
+ * temporary file beside it, then rename that over the original. `previous` is
+ * what the file held before, kept as a rolling backup.
+ */
+async function writeAtomically(rootUri: vscode.Uri, uri: vscode.Uri, data: string, previous: string | undefined) {
+  if (previous !== undefined) {
+    await keepRollingBackup(rootUri, uri, previous);
+  }
+  const tempUri = uri.with({ path: `${uri.path}.tmp` });
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+  await vscode.workspace.fs.writeFile(tempUri, Buffer.from(data, 'utf8'));
+  await vscode.workspace.fs.rename(tempUri, uri, { overwrite: true });
+}
+
+/** Name for a stored file's backups, from its path under `.comments` */
+function getBackupName(rootUri: vscode.Uri, uri: vscode.Uri): string {
+  const commentsDir = vscode.Uri.joinPath(rootUri, COMMENTS_DIR).path;
+  return uri.path.slice(commentsDir.length + 1).split('/').join('_').replace(/\.json$/, '');
+}
+
+/**
+ * Copy what a file held before it is overwritten to
+ * `.comments/backups/rolling`, at most once per interval, keeping the most
+ * recent few copies of each file.
+ */
+async function keepRollingBackup(rootUri: vscode.Uri, uri: vscode.Uri, previous: string) {
+  const now = Date.now();
+  if (now - (lastRollingBackups.get(uri.toString()) ?? 0) < ROLLING_BACKUP_INTERVAL) {
+    return;
+  }
+  lastRollingBackups.set(uri.toString(), now);
+
+  const name = getBackupName(rootUri, uri);
+  const backupDir = vscode.Uri.joinPath(rootUri, COMMENTS_DIR, BACKUPS_DIR, ROLLING_BACKUPS_DIR);
+  const stamp = new Date(now).toISOString().replace(/[:.]/g, '-');
+  await vscode.workspace.fs.createDirectory(backupDir);
+  await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(backupDir, `${name}.${stamp}.json`), Buffer.from(previous, 'utf8'));
+
+  // Timestamps sort in time order, so the oldest copies come first
+  const copies = (await vscode.workspace.fs.readDirectory(backupDir))
+    .map(([fileName]) => fileName)
+    .filter(fileName => fileName.startsWith(`${name}.`) && /^\d{4}-\d{2}-\d{2}T[\d-]+Z\.json$/.test(fileName.slice(name.length + 1)))
+    .sort();
+  for (const fileName of copies.slice(0, Math.max(0, copies.length - ROLLING_BACKUP_COUNT))) {
+    await vscode.workspace.fs.delete(vscode.Uri.joinPath(backupDir, fileName));
+  }
+}
+
+/**
+ * The original layout: every comment in `.comments/collab-comments.json`.
+ */
+export class SingleFileStorage implements CommentStorage {
+  readonly watchPattern = `${COMMENTS_DIR}/collab-comments.json`;
+  private readonly rootUri: vscode.Uri;
+  private readonly fileUri: vscode.Uri;
+
+  constructor(rootUri: vscode.Uri) {
+    this.rootUri = rootUri;
+    this.fileUri = vscode.Uri.joinPath(rootUri, COMMENTS_DIR, 'collab-comments.json');
+  }
+
+  async load(): Promise<LoadResult | undefined> {
+    const data = await this.fingerprint();
+    if (data === undefined) {
+      return undefined;
+    }
+    const { comments, problems } = parseCommentFile(data);
+    return {
+      store: { comments },
+      problems: problems.map(problem => `collab-comments.json: ${problem}`),
+      backups: problems.length > 0 ? [await backupCommentFile(this.rootUri, this.fileUri, data)] : []
+    };
+  }
+
+  async save(store: CommentStore): Promise<void> {
+    const data = JSON.stringify({ version: SCHEMA_VERSION, ...store }, null, 2);
+    const previous = await readText(this.fileUri);
+    if (previous !== data) {
+      await writeAtomically(this.rootUri, this.fileUri, data, previous);
+    }
+  }
+
+  fingerprint(): Promise<string | undefined> {
+    return readText(this.fileUri);
+  }
+
+  exists(): Promise<boolean> {
+    return exists(this.fileUri);
+  }
+
+  async remove(): Promise<void> {
+    if (await this.exists()) {
+      await vscode.workspace.fs.delete(this.fileUri);
+    }
+  }
+}
+
+/**
+ * Copy a file with problems into `.comments/backups`, named after its content
+ * so the same damaged file is only backed up once. Returns the backup's path.
+ */
+async function backupCommentFile(rootUri: vscode.Uri, uri: vscode.Uri, data: string): Promise<string> {
+  const hash = crypto.createHash('sha1').update(data).digest('hex').slice(0, 8);
+  const backupUri = vscode.Uri.joinPath(rootUri, COMMENTS_DIR, BACKUPS_DIR, `${getBackupName(rootUri, uri)}.${hash}.json`);
+  if (!await exists(backupUri)) {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(backupUri, '..'));
+    await vscode.workspace.fs.writeFile(backupUri, Buffer.from(data, 'utf8'));
+  }
+  return vscode.workspace.asRelativePath(backupUri);
+}
+
+// Keys are written in this order so that unrelated changes never reorder a file
+const COMMENT_KEY_ORDER = ['id', 'author', 'identity', 'timestamp', 'text', 'mentions', 'editedAt', 'revisions', 'reactions', 'range', 'anchor', 'suggestion', 'git', 'scope', 'resolved', 'assignee', 'priority', 'labels', 'dueDate', 'orphaned', 'archived', 'deleted', 'review', 'replies', 'activity'];
+
+// A shard's name is its source file's name, a hash of the source path and `.json`
+const SHARD_SUFFIX = /(\.[0-9a-f]{8})?\.json$/;
+
+/**
+ * Where a source file's shard goes, as path segments under the shard
+ * directory. Paths are made safe to use as file names, which can make two of
+ * them alike (`a:b` and `a_b`, or `../x` and `_/x`), so the name ends with a
+ * hash of the path as it was and every source file gets a shard of its own.
+ */
+export function getShardPath(filePath: string): string[] {
+  // Keep shards inside the shard directory even for paths outside the workspace
+  const safePath = filePath
+    .replace(/:/g, '_')
+    .split(/[/\\]+/)
+    .filter(segment => segment !== '')
+    .map(segment => (segment === '..' || segment === '.' ? '_' : segment));
+  const hash = crypto.createHash('sha1').update(filePath).digest('hex').slice(0, 8);
+  const name = safePath.pop() ?? '_';
+  return [...safePath, `${name}.${hash}.json`];
+}
+
+/**
+ * One file per commented source file under `.comments/files/`, mirroring the
+ * source tree. Comments are sorted by position and written with a fixed key
+ * order, so two people commenting on different files (or different parts of
+ * the same file) rarely produce a Git conflict.
+ */
+export class ShardedStorage implements CommentStorage {
+  readonly watchPattern = `${COMMENTS_DIR}/files/**/*.json`;
+  private readonly rootUri: vscode.Uri;
+  private readonly shardDir: vscode.Uri;
+
+  constructor(rootUri: vscode.Uri) {
+    this.rootUri = rootUri;
+    this.shardDir = vscode.Uri.joinPath(rootUri, COMMENTS_DIR, 'files');
+  }
+
+  async load(): Promise<LoadResult | undefined> {
+    const shardFiles = await this.listShardFiles();
+    if (shardFiles.length === 0) {
+      return undefined;
+    }
+
+    const result: LoadResult = { store: { comments: [] }, problems: [], backups: [] };
+    for (const shardFile of shardFiles) {
+      const data = await readText(shardFile) ?? '';
+      const relativePath = shardFile.path.slice(this.shardDir.path.length + 1);
+      // The shard's own record of its source file wins; its location is a fallback for damaged shards
+      const { comments, problems } = parseCommentFile(data, relativePath.replace(SHARD_SUFFIX, ''));
+      result.store.comments.push(...comments);
+      if (problems.length > 0) {
+        result.problems.push(...problems.map(problem => `files/${relativePath}: ${problem}`));
+        result.backups.push(await backupCommentFile(this.rootUri, shardFile, data));
+      }
+    }
+    return result;
+  }
+
+  async save(store: CommentStore): Promise<void> {
+    const commentsByFile = new Map<string, CommentData[]>();
+    for (const comment of store.comments) {
+      if (!commentsByFile.has(comment.filePath)) {
+        commentsByFile.set(comment.filePath, []);
+      }
+      commentsByFile.get(comment.filePath)!.push(comment);
+    }
+
+    const written = new Set<string>();
+    for (const [filePath, comments] of commentsByFile) {
+      const shardFile = this.getShardUri(filePath);
+      const shard = {
+        version: SCHEMA_VERSION,
+        filePath,
+        comments: [...comments].sort(compareComments).map(normalizeComment)
+      };
+      const data = JSON.stringify(shard, null, 2) + '\n';
+
+      written.add(shardFile.toString());
+      const previous = await readText(shardFile);
+      if (previous !== data) {
+        await writeAtomically(this.rootUri, shardFile, data, previous);
+      }
+    }
+
+    // Remove shards for files that no longer have comments
+    for (const shardFile of await this.listShardFiles()) {
+      if (!written.has(shardFile.toString())) {
+        await vscode.workspace.fs.delete(shardFile);
+      }
+    }
+  }
+
+  async fingerprint(): Promise<string | undefined> {
+    const shardFiles = await this.listShardFiles();
+    if (shardFiles.length === 0) {
+      return undefined;
+    }
+    const contents = await Promise.all(shardFiles.map(readText));
+    return shardFiles.map((file, i) => `${file.path}\0${contents[i] ?? ''}`).join('\0');
+  }
+
+  private getShardUri(filePath: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.shardDir, ...getShardPath(filePath));
+  }
+
+  private async listShardFiles(): Promise<vscode.Uri[]> {
+    const files: vscode.Uri[] = [];
+    const walk = async (dir: vscode.Uri) => {
+      let entries: [string, vscode.FileType][];
+      try {
+        entries = await vscode.workspace.fs.readDirectory(dir);
+      } catch {
+        return;
+      }
+      for (const [name, type] of entries) {
+        const child = vscode.Uri.joinPath(dir, name);
+        if (type & vscode.FileType.Directory) {
+          await walk(child);
+        } else if (name.endsWith('.json')) {
+          files.push(child);
+        }
+      }
+    };
+    await walk(this.shardDir);
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
+
+function compareComments(a: CommentData, b: CommentData): number {
+  return (
+    a.range.start.line - b.range.start.line ||
+    a.range.start.character - b.range.start.character ||
+    a.timestamp.localeCompare(b.timestamp) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+function normalizeComment(comment: CommentData): Record<string, unknown> {
+  const record = comment as unknown as Record<string, unknown>;
+  const keys = [
+    ...COMMENT_KEY_ORDER.filter(key => key in record),
+    ...Object.keys(record).filter(key => !COMMENT_KEY_ORDER.includes(key) && key !== 'filePath').sort()
+  ];
+
+  const normalized: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (record[key] !== undefined) {
+      normalized[key] = record[key];
+    }
+  }
+  return normalized;
+}
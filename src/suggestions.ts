@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { CommentData } from './types';
+
+/**
+ * Suggested edits: threads that propose replacement text for the text they
+ * are on. A suggestion applies cleanly while that text is still what it was
+ * when the suggestion was made; once it has changed, the suggestion is
+ * flagged and can only be rejected.
+ */
+
+// Pending suggestions whose text has changed since they were made, worked out per open document
+const staleSuggestions = new Set<string>();
+
+const SUGGESTION_FENCE = /^```suggestion[^\n]*\n([\s\S]*?)\n?^```[ \t]*$/m;
+
+export function isPendingSuggestion(commentData: CommentData): boolean {
+  return !!commentData.suggestion && !commentData.suggestion.status;
+}
+
+export function isStaleSuggestion(commentData: CommentData): boolean {
+  return staleSuggestions.has(commentData.id);
+}
+
+function getRange(commentData: CommentData): vscode.Range {
+  const { start, end } = commentData.range;
+  return new vscode.Range(start.line, start.character, end.line, end.character);
+}
+
+/** Whether the commented text in `document` is still the text the suggestion replaces */
+export function suggestionApplies(commentData: CommentData, document: vscode.TextDocument): boolean {
+  return !!commentData.suggestion && document.getText(getRange(commentData)) === commentData.suggestion.original;
+}
+
+/**
+ * Work out which pending suggestions in a document no longer apply. Returns
+ * true if any suggestion's state changed.
+ */
+export function updateStaleSuggestions(document: vscode.TextDocument, comments: CommentData[]): boolean {
+  let changed = false;
+  for (const commentData of comments) {
+    const stale = isPendingSuggestion(commentData) && !suggestionApplies(commentData, document);
+    if (stale !== staleSuggestions.has(commentData.id)) {
+      if (stale) {
+        staleSuggestions.add(commentData.id);
+      } else {
+        staleSuggestions.delete(commentData.id);
+      }
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Split a ```suggestion fenced block, as GitHub uses for suggested changes,
+ * out of a new comment's text. The block's contents are the suggested text.
+ */
+export function extractSuggestion(text: string): { text: string; suggestion?: string } {
+  const match = text.match(SUGGESTION_FENCE);
+  if (!match) {
+    return { text };
+  }
+  return { text: text.replace(SUGGESTION_FENCE, '').trim(), suggestion: match[1] };
+}
+
+/**
+ * The suggestion as a Markdown diff of the text it replaces, with what
+ * became of it.
+ */
+export function formatSuggestion(commentData: CommentData): string {
+  const suggestion = commentData.suggestion;
+  if (!suggestion) {
+    return '';
+  }
+
+  const lines = (prefix: string, text: string) => text.split(/\r?\n/).map(line => `${prefix} ${line}`);
+  const diff = ['```diff', ...lines('-', suggestion.original), ...lines('+', suggestion.text), '```'].join('\n');
+
+  let heading = '**Suggested change**';
+  if (suggestion.status) {
+    const when = suggestion.decidedAt ? ` on ${new Date(suggestion.decidedAt).toLocaleString()}` : '';
+    heading = `**Suggestion ${suggestion.status}** by ${suggestion.decidedBy ?? 'someone'}${when}`;
+  } else if (isStaleSuggestion(commentData)) {
+    heading = '**Suggested change** — the text has changed since, so it can no longer be applied';
+  }
+  return `${heading}\n\n${diff}`;
+}
+
+/**
+ * Replace the commented text with the suggested text. Returns the range of
+ * the new text, or undefined if the suggestion no longer applies or the edit
+ * was refused.
+ */
+export async function applySuggestionEdit(commentData: CommentData, uri: vscode.Uri): Promise<vscode.Range | undefined> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  if (!commentData.suggestion || !suggestionApplies(commentData, document)) {
+    return undefined;
+  }
+
+  const range = getRange(commentData);
+  const start = document.offsetAt(range.start);
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(uri, range, commentData.suggestion.text);
+  if (!await vscode.workspace.applyEdit(edit)) {
+    return undefined;
+  }
+  staleSuggestions.delete(commentData.id);
+  return new vscode.Range(document.positionAt(start), document.positionAt(start + commentData.suggestion.text.length));
+}
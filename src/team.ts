@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import { COMMENTS_DIR } from './storage';
+import { CommentData } from './types';
+
+/**
+ * The team roster and @mentions. Each workspace folder can list its team in
+ * `.comments/team.json`; comment text mentions people by `@handle`, and the
+ * handles found are saved with the comment.
+ */
+
+export interface TeamMember {
+  name: string;
+  handle: string;
+  email?: string;
+}
+
+interface RosterFile {
+  members: TeamMember[];
+}
+
+const ROSTER_FILE = 'team.json';
+const MENTION_PATTERN = /(^|[^\w@])@([\w][\w.-]*[\w]|[\w])/g;
+
+let gitEmail: string | null | undefined;
+// Each folder's roster, by folder URI. Mentions are extracted on every change to an inline
+// document, so rosters are read once and then again only when they change.
+const rosters = new Map<string, TeamMember[]>();
+let rosterLoad: Promise<void> = Promise.resolve();
+
+function getRosterUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+  return vscode.Uri.joinPath(folder.uri, COMMENTS_DIR, ROSTER_FILE);
+}
+
+async function loadFolderRoster(folder: vscode.WorkspaceFolder): Promise<TeamMember[]> {
+  let data: Uint8Array;
+  try {
+    data = await vscode.workspace.fs.readFile(getRosterUri(folder));
+  } catch {
+    // No roster
+    return [];
+  }
+  try {
+    const roster: RosterFile = JSON.parse(Buffer.from(data).toString('utf8'));
+    return (roster.members ?? []).filter(member => member.name && member.handle);
+  } catch (error) {
+    console.error('Failed to load team roster:', error);
+    return [];
+  }
+}
+
+function reloadRosters(): Promise<void> {
+  rosterLoad = rosterLoad.then(async () => {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const loaded = await Promise.all(folders.map(loadFolderRoster));
+    rosters.clear();
+    folders.forEach((folder, i) => rosters.set(folder.uri.toString(), loaded[i]));
+  });
+  return rosterLoad;
+}
+
+/**
+ * Read every folder's roster, and read them again whenever one changes or
+ * folders are added or removed.
+ */
+export async function watchRosters(): Promise<vscode.Disposable> {
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${COMMENTS_DIR}/${ROSTER_FILE}`);
+  watcher.onDidCreate(reloadRosters);
+  watcher.onDidChange(reloadRosters);
+  watcher.onDidDelete(reloadRosters);
+  await reloadRosters();
+  return vscode.Disposable.from(watcher, vscode.workspace.onDidChangeWorkspaceFolders(reloadRosters));
+}
+
+/**
+ * Everyone on the rosters of all workspace folders. A handle listed in more
+ * than one folder is taken from the first.
+ */
+export function getRoster(): TeamMember[] {
+  const members = new Map<string, TeamMember>();
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    for (const member of rosters.get(folder.uri.toString()) ?? []) {
+      const key = member.handle.toLowerCase();
+      if (!members.has(key)) {
+        members.set(key, member);
+      }
+    }
+  }
+  return [...members.values()];
+}
+
+/**
+ * The roster entry for whoever is using VS Code, recognised by their Git
+ * email or by the configured default author matching a name or handle.
+ */
+export function getCurrentMember(roster: TeamMember[] = getRoster()): TeamMember | undefined {
+  const email = getGitEmail()?.toLowerCase();
+  const byEmail = email ? roster.find(member => member.email?.toLowerCase() === email) : undefined;
+  if (byEmail) {
+    return byEmail;
+  }
+
+  const defaultAuthor = vscode.workspace.getConfiguration('commentTracker').get<string>('defaultAuthor')?.trim().toLowerCase();
+  return defaultAuthor
+    ? roster.find(member => member.name.toLowerCase() === defaultAuthor || member.handle.toLowerCase() === defaultAuthor)
+    : undefined;
+}
+
+function getGitEmail(): string | undefined {
+  if (gitEmail === undefined) {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    try {
+      gitEmail = folder
+        ? childProcess.execFileSync('git', ['config', 'user.email'], { cwd: folder.uri.fsPath, encoding: 'utf8' }).trim() || null
+        : null;
+    } catch {
+      gitEmail = null;
+    }
+  }
+  return gitEmail ?? undefined;
+}
+
+/**
+ * Handles of roster members mentioned in `text`, in the order they first
+ * appear. Mentions of people not on the roster are ignored.
+ */
+export function extractMentions(text: string, roster: TeamMember[] = getRoster()): string[] {
+  const handles = new Map(roster.map(member => [member.handle.toLowerCase(), member.handle]));
+  const mentions: string[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = handles.get(match[2].toLowerCase());
+    if (handle && !mentions.includes(handle)) {
+      mentions.push(handle);
+    }
+  }
+  return mentions;
+}
+
+/**
+ * Record the mentions in a comment's or reply's text on the entry itself.
+ */
+export function updateMentions(entry: { text: string; mentions?: string[] }, roster?: TeamMember[]) {
+  const mentions = extractMentions(entry.text, roster);
+  if (mentions.length > 0) {
+    entry.mentions = mentions;
+  } else {
+    delete entry.mentions;
+  }
+}
+
+/**
+ * Whether `handle` is mentioned in a comment or any of its replies.
+ */
+export function isMentioned(comment: CommentData, handle: string): boolean {
+  const needle = handle.toLowerCase();
+  return [comment, ...(comment.replies ?? [])].some(entry =>
+    entry.mentions?.some(mention => mention.toLowerCase() === needle)
+  );
+}
+
+/**
+ * Commit authors from `git log`, as roster entries with a handle made from
+ * their email address.
+ */
+function getGitAuthors(folder: vscode.WorkspaceFolder): TeamMember[] {
+  const output = childProcess.execFileSync('git', ['log', '--format=%aN%x09%aE'], {
+    cwd: folder.uri.fsPath,
+    encoding: 'utf8',
+    maxBuffer: 64 * 1024 * 1024
+  });
+
+  const authors = new Map<string, TeamMember>();
+  for (const line of output.split('\n')) {
+    const [name, email] = line.split('\t').map(part => part?.trim());
+    if (!name || !email || authors.has(email.toLowerCase())) {
+      continue;
+    }
+    authors.set(email.toLowerCase(), { name, handle: toHandle(email.split('@')[0] || name), email });
+  }
+  return [...authors.values()];
+}
+
+function toHandle(text: string): string {
+  return text.toLowerCase().replace(/[^\w.-]+/g, '-').replace(/^[.-]+|[.-]+$/g, '') || 'member';
+}
+
+/**
+ * Add everyone who has committed to a folder's repository to its roster.
+ * People already listed, by email or handle, are left as they are.
+ */
+export async function seedRosterFromGit() {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder found');
+    return;
+  }
+
+  const folder = folders.length === 1
+    ? folders[0]
+    : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Add Git authors to the team roster of' });
+  if (!folder) {
+    return;
+  }
+
+  let authors: TeamMember[];
+  try {
+    authors = getGitAuthors(folder);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to read Git authors: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const members = [...await loadFolderRoster(folder)];
+  const handles = new Set(members.map(member => member.handle.toLowerCase()));
+  const emails = new Set(members.flatMap(member => member.email ? [member.email.toLowerCase()] : []));
+  let added = 0;
+
+  for (const author of authors) {
+    if (author.email && emails.has(author.email.toLowerCase())) {
+      continue;
+    }
+    // Two authors with the same email name get numbered handles
+    let handle = author.handle;
+    for (let n = 2; handles.has(handle.toLowerCase()); n++) {
+      handle = `${author.handle}${n}`;
+    }
+    members.push({ ...author, handle });
+    handles.add(handle.toLowerCase());
+    added++;
+  }
+
+  const rosterUri = getRosterUri(folder);
+  const roster: RosterFile = { members };
+  try {
+    await vscode.workspace.fs.writeFile(rosterUri, Buffer.from(JSON.stringify(roster, null, 2) + '\n', 'utf8'));
+    rosters.set(folder.uri.toString(), members);
+  } catch (error) {
+    console.error('Failed to save team roster:', error);
+    vscode.window.showErrorMessage('Failed to save the team roster');
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Added ${added} ${added === 1 ? 'person' : 'people'} to the team roster.`,
+    'Open Roster'
+  );
+  if (choice === 'Open Roster') {
+    await vscode.window.showTextDocument(rosterUri);
+  }
+}
+
+/**
+ * Suggests roster members after `@` while writing a comment.
+ */
+export class MentionCompletionProvider implements vscode.CompletionItemProvider {
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+    const match = /(?:^|[^\w@])@([\w.-]*)$/.exec(linePrefix);
+    if (!match) {
+      return undefined;
+    }
+
+    const replaceRange = new vscode.Range(position.translate(0, -match[1].length), position);
+    return getRoster().map(member => {
+      const item = new vscode.CompletionItem(
+        { label: member.handle, description: member.name },
+        vscode.CompletionItemKind.User
+      );
+      item.insertText = member.handle;
+      item.filterText = `${member.handle} ${member.name}`;
+      item.detail = member.email;
+      item.range = replaceRange;
+      return item;
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { createAnchor, findAnchor, transformRange } from '../anchoring';
+
+function anchorOn(content: string, text: string) {
+  const start = content.indexOf(text);
+  return { anchor: createAnchor(content, start, start + text.length), start };
+}
+
+suite('Anchoring', () => {
+  suite('findAnchor', () => {
+    test('finds unique text after lines are added above it', () => {
+      const content = 'Intro.\nWe measured the results twice.\nOutro.';
+      const { anchor } = anchorOn(content, 'the results');
+      const edited = 'A new first line.\n' + content;
+      const found = findAnchor(edited, anchor, 0);
+      assert.deepStrictEqual(found, { start: edited.indexOf('the results'), end: edited.indexOf('the results') + 'the results'.length });
+    });
+
+    test('picks the occurrence whose context still matches', () => {
+      const content = 'First we list the results here.\nThen we discuss the results in depth.';
+      const second = content.lastIndexOf('the results');
+      const anchor = createAnchor(content, second, second + 'the results'.length);
+      // The hint points at the other occurrence, but the context wins
+      assert.deepStrictEqual(findAnchor(content, anchor, 0), { start: second, end: second + 'the results'.length });
+    });
+
+    test('does not jump to the same words elsewhere when the text is rewritten', () => {
+      const content = 'Summary: the results are fine.\n\nDetails: we discuss the results in depth here.';
+      const second = content.lastIndexOf('the results');
+      const anchor = createAnchor(content, second, second + 'the results'.length);
+      const rewritten = content.replace('we discuss the results in depth', 'we take a fresh look');
+      assert.strictEqual(findAnchor(rewritten, anchor, rewritten.indexOf('a fresh look')), undefined);
+    });
+
+    test('falls back to the span between the context when the text is gone', () => {
+      const content = 'Before the comment, some context. OLD TEXT and after it, more context here.';
+      const { anchor } = anchorOn(content, 'OLD TEXT');
+      const rewritten = content.replace('OLD TEXT', 'NEW WORDS');
+      const found = findAnchor(rewritten, anchor, 0);
+      assert.ok(found);
+      assert.strictEqual(rewritten.slice(found.start, found.end), 'NEW WORDS');
+    });
+
+    test('gives up when neither the text nor its context is left', () => {
+      const content = 'Some paragraph with a very particular phrase in it.';
+      const { anchor } = anchorOn(content, 'very particular phrase');
+      assert.strictEqual(findAnchor('Entirely different content.', anchor, 0), undefined);
+    });
+  });
+
+  suite('transformRange', () => {
+    const range = { start: { line: 2, character: 4 }, end: { line: 2, character: 10 } };
+    const at = (line: number, character: number) => ({ line, character });
+
+    test('moves the comment down when lines are inserted above', () => {
+      const result = transformRange(range, { range: { start: at(0, 0), end: at(0, 0) }, text: 'a\nb\n' });
+      assert.deepStrictEqual(result, { range: { start: at(4, 4), end: at(4, 10) }, contained: false });
+    });
+
+    test('shifts the comment along its line when text is inserted before it', () => {
+      const result = transformRange(range, { range: { start: at(2, 0), end: at(2, 0) }, text: 'xyz' });
+      assert.deepStrictEqual(result.range, { start: at(2, 7), end: at(2, 13) });
+    });
+
+    test('keeps text typed at either boundary outside the comment', () => {
+      assert.deepStrictEqual(transformRange(range, { range: { start: at(2, 4), end: at(2, 4) }, text: 'x' }).range, { start: at(2, 5), end: at(2, 11) });
+      assert.deepStrictEqual(transformRange(range, { range: { start: at(2, 10), end: at(2, 10) }, text: 'x' }).range, range);
+    });
+
+    test('shrinks the comment when text inside it is deleted', () => {
+      const result = transformRange(range, { range: { start: at(2, 5), end: at(2, 7) }, text: '' });
+      assert.deepStrictEqual(result, { range: { start: at(2, 4), end: at(2, 8) }, contained: false });
+    });
+
+    test('flags a comment whose whole text was replaced', () => {
+      const result = transformRange(range, { range: { start: at(2, 0), end: at(3, 0) }, text: 'new line\n' });
+      assert.strictEqual(result.contained, true);
+    });
+
+    test('leaves the comment alone for edits after it', () => {
+      assert.deepStrictEqual(transformRange(range, { range: { start: at(5, 0), end: at(6, 0) }, text: '' }), { range, contained: false });
+    });
+  });
+});
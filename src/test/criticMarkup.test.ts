@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { parseCriticMarkup, removeCommentMarkup } from '../criticMarkup';
+
+suite('CriticMarkup', () => {
+  test('reads a highlighted comment and its replies', () => {
+    const { stripped, annotations } = parseCriticMarkup('See {==this==}{>>@Ada: Why?<<}{>>@Bob: Because.<<} now.');
+    assert.strictEqual(stripped, 'See this now.');
+    assert.strictEqual(annotations.length, 1);
+    assert.deepStrictEqual(annotations[0].notes, [{ author: 'Ada', timestamp: undefined, text: 'Why?' }, { author: 'Bob', timestamp: undefined, text: 'Because.' }]);
+    assert.strictEqual(stripped.slice(annotations[0].start, annotations[0].end), 'this');
+  });
+
+  test('keeps highlights without a comment when removing comment markup', () => {
+    const text = 'An {==emphasised==} word, then {==commented==}{>>Check this<<} text.';
+    const { text: result, comments } = removeCommentMarkup(text);
+    assert.strictEqual(result, 'An {==emphasised==} word, then commented text.');
+    assert.strictEqual(comments.length, 1);
+    assert.strictEqual(result.slice(comments[0].start, comments[0].end), 'commented');
+  });
+
+  test('places bare comments after a highlight without a comment', () => {
+    const text = '{==Title==}\nFirst line{>>Too short<<}\nSecond {==a==}{>>One<<} and {==b==}{>>Two<<}';
+    const { text: result, comments } = removeCommentMarkup(text);
+    assert.strictEqual(result, '{==Title==}\nFirst line\nSecond a and b');
+    assert.deepStrictEqual(
+      comments.map(({ start, end }) => result.slice(start, end)),
+      ['First line', 'a', 'b']
+    );
+  });
+});
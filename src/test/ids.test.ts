@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { createId, createNamedId, isUuid, migrateId } from '../ids';
+
+suite('Comment ids', () => {
+  test('makes a different random UUID each time', () => {
+    const first = createId();
+    assert.ok(isUuid(first));
+    assert.notStrictEqual(createId(), first);
+  });
+
+  test('makes the same version 5 UUID for the same name', () => {
+    const id = createNamedId('1714000000000');
+    assert.strictEqual(createNamedId('1714000000000'), id);
+    assert.notStrictEqual(createNamedId('1714000000001'), id);
+    assert.match(id, /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  test('migrates an old id to the same UUID on every machine', () => {
+    assert.strictEqual(migrateId('1714000000000'), createNamedId('1714000000000'));
+    assert.strictEqual(migrateId('1714000000000'), migrateId('1714000000000'));
+  });
+
+  test('leaves UUIDs as they are', () => {
+    const id = createId();
+    assert.strictEqual(migrateId(id), id);
+    assert.strictEqual(migrateId(migrateId('reply-1')), migrateId('reply-1'));
+  });
+
+  test('tells UUIDs apart from older ids', () => {
+    assert.ok(isUuid('0F8FAD5B-D9CB-469F-A165-70867728950E'));
+    assert.ok(!isUuid('1714000000000'));
+    assert.ok(!isUuid(''));
+  });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { isEqual, mergeCommentStores } from '../merge';
+import { CommentActivity, CommentData, CommentStore } from '../types';
+
+function comment(id: string, fields: Partial<CommentData> = {}): CommentData {
+  return {
+    id,
+    author: 'Ada',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    text: `Comment ${id}`,
+    filePath: 'a.md',
+    range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+    replies: [],
+    resolved: false,
+    ...fields
+  };
+}
+
+function store(...comments: CommentData[]): CommentStore {
+  return { comments };
+}
+
+function activity(action: CommentActivity['action'], timestamp: string, author = 'Ada'): CommentActivity {
+  return { action, author, timestamp };
+}
+
+suite('Merging comment stores', () => {
+  test('takes a field changed on only one side', () => {
+    const base = store(comment('1'));
+    const ours = store(comment('1', { text: 'Edited here' }));
+    const theirs = store(comment('1', { resolved: true }));
+    const [merged] = mergeCommentStores(base, ours, theirs).comments;
+    assert.strictEqual(merged.text, 'Edited here');
+    assert.strictEqual(merged.resolved, true);
+  });
+
+  test('keeps the local value when both sides changed a field', () => {
+    const base = store(comment('1'));
+    const ours = store(comment('1', { text: 'Ours' }));
+    const theirs = store(comment('1', { text: 'Theirs' }));
+    assert.strictEqual(mergeCommentStores(base, ours, theirs).comments[0].text, 'Ours');
+  });
+
+  test('removes a field removed on the other side only', () => {
+    const base = store(comment('1', { assignee: 'bob' }));
+    const ours = store(comment('1', { assignee: 'bob' }));
+    const theirs = store(comment('1'));
+    assert.strictEqual(mergeCommentStores(base, ours, theirs).comments[0].assignee, undefined);
+  });
+
+  test('keeps comments added on either side, local ones first', () => {
+    const base = store(comment('1'));
+    const ours = store(comment('1'), comment('2'));
+    const theirs = store(comment('1'), comment('3'));
+    assert.deepStrictEqual(mergeCommentStores(base, ours, theirs).comments.map(c => c.id), ['1', '2', '3']);
+  });
+
+  test('drops a comment deleted on one side and unchanged on the other', () => {
+    const base = store(comment('1'), comment('2'));
+    assert.deepStrictEqual(mergeCommentStores(base, store(comment('1')), base).comments.map(c => c.id), ['1']);
+    assert.deepStrictEqual(mergeCommentStores(base, base, store(comment('2'))).comments.map(c => c.id), ['2']);
+  });
+
+  test('keeps a comment deleted on one side but changed on the other', () => {
+    const base = store(comment('1'));
+    const theirs = store(comment('1', { text: 'Changed on disk' }));
+    assert.deepStrictEqual(mergeCommentStores(base, store(), theirs).comments.map(c => c.text), ['Changed on disk']);
+  });
+
+  test('merges replies by id', () => {
+    const reply = (id: string, text = `Reply ${id}`) => ({ id, author: 'Bob', timestamp: '2024-01-02T00:00:00.000Z', text });
+    const base = store(comment('1', { replies: [reply('r1')] }));
+    const ours = store(comment('1', { replies: [reply('r1', 'Edited'), reply('r2')] }));
+    const theirs = store(comment('1', { replies: [reply('r1'), reply('r3')] }));
+    assert.deepStrictEqual(
+      mergeCommentStores(base, ours, theirs).comments[0].replies?.map(r => r.text),
+      ['Edited', 'Reply r2', 'Reply r3']
+    );
+  });
+
+  test('keeps the activity entries added on both sides, in time order', () => {
+    const created = activity('created', '2024-01-01T00:00:00.000Z');
+    const base = store(comment('1', { activity: [created] }));
+    const ours = store(comment('1', { activity: [created, activity('resolved', '2024-01-03T00:00:00.000Z')] }));
+    const theirs = store(comment('1', { activity: [created, activity('replied', '2024-01-02T00:00:00.000Z', 'Bob')] }));
+    assert.deepStrictEqual(
+      mergeCommentStores(base, ours, theirs).comments[0].activity?.map(entry => entry.action),
+      ['created', 'replied', 'resolved']
+    );
+  });
+
+  test('merges reactions person by person', () => {
+    const thumbsUp = '👍';
+    const eyes = '👀';
+    const base = store(comment('1', { reactions: { [thumbsUp]: ['Ada', 'Bob'] } }));
+    const ours = store(comment('1', { reactions: { [thumbsUp]: ['Ada', 'Bob', 'Cy'] } }));
+    const theirs = store(comment('1', { reactions: { [thumbsUp]: ['Ada'], [eyes]: ['Dee'] } }));
+    assert.deepStrictEqual(mergeCommentStores(base, ours, theirs).comments[0].reactions, { [thumbsUp]: ['Ada', 'Cy'], [eyes]: ['Dee'] });
+  });
+
+  test('compares stored data regardless of key order', () => {
+    assert.ok(isEqual({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 }));
+    assert.ok(isEqual({ a: 1, b: undefined }, { a: 1 }));
+    assert.ok(!isEqual([1, 2], Object.assign({}, [1, 2])));
+  });
+});
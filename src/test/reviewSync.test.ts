@@ -0,0 +1,350 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { FolderCommentStore } from '../commentStore';
+import { GitHubProvider, GitLabProvider, PullRequestLink } from '../pullRequests';
+import { confirmFirstPublish, syncComments } from '../reviewSync';
+import { CommentData } from '../types';
+
+interface MockRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: { query?: string; variables?: Record<string, unknown>; [key: string]: unknown };
+}
+
+interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * A stand-in for the GitHub and GitLab APIs. Each test says how to answer,
+ * and every request is kept so the test can check what was sent.
+ */
+let server: http.Server;
+let apiUrl: string;
+let respond: (request: MockRequest) => MockResponse;
+let requests: MockRequest[];
+
+function githubLink(): PullRequestLink {
+  return { host: 'github', url: 'https://github.com/owner/repo/pull/7', apiUrl, repository: 'owner/repo', number: 7 };
+}
+
+function gitlabLink(): PullRequestLink {
+  return { host: 'gitlab', url: 'https://gitlab.com/group/project/-/merge_requests/5', apiUrl, repository: 'group/project', number: 5 };
+}
+
+function githubComment(id: number, body = `Comment ${id}`) {
+  return { databaseId: id, author: { login: 'octo', avatarUrl: '' }, body, createdAt: '2024-01-02T00:00:00Z' };
+}
+
+function githubThread(id: string, resolved: boolean, commentIds: number[], moreComments = false) {
+  return {
+    id,
+    isResolved: resolved,
+    path: 'a.md',
+    line: 2,
+    startLine: 1,
+    originalLine: 2,
+    originalStartLine: 1,
+    comments: { pageInfo: { hasNextPage: moreComments, endCursor: moreComments ? 'more' : null }, nodes: commentIds.map(commentId => githubComment(commentId)) }
+  };
+}
+
+/** The answer to a GraphQL query listing a pull request's review threads */
+function githubThreads(nodes: unknown[], nextCursor: string | null = null) {
+  return { data: { repository: { pullRequest: { headRefOid: 'head-sha', reviewThreads: { pageInfo: { hasNextPage: !!nextCursor, endCursor: nextCursor }, nodes } } } } };
+}
+
+function gitlabNote(id: number, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    type: 'DiffNote',
+    system: false,
+    body: `Note ${id}`,
+    author: { username: 'tanuki' },
+    ['created_at']: '2024-01-02T00:00:00Z',
+    resolved: false,
+    position: { ['new_path']: 'a.md', ['new_line']: 2, ['old_line']: null },
+    ...fields
+  };
+}
+
+function comment(fields: Partial<CommentData> = {}): CommentData {
+  return {
+    id: 'c1',
+    author: 'Ada',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    text: 'Looks off',
+    filePath: 'a.md',
+    range: { start: { line: 1, character: 0 }, end: { line: 1, character: 4 } },
+    replies: [],
+    resolved: false,
+    ...fields
+  };
+}
+
+function folderStore(comments: CommentData[]): FolderCommentStore {
+  const folder = { uri: vscode.Uri.file(os.tmpdir()), name: 'docs', index: 0 };
+  return { folder, store: { comments }, syncedStore: { comments: [] }, syncedFingerprint: undefined };
+}
+
+suite('Pull requests', () => {
+  suiteSetup(done => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        const request: MockRequest = { method: req.method ?? '', url: req.url ?? '', authorization: req.headers.authorization, body: text ? JSON.parse(text) : {} };
+        requests.push(request);
+        const response = respond(request);
+        res.writeHead(response.status ?? 200, { ['Content-Type']: 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body ?? {}));
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  setup(() => {
+    requests = [];
+    respond = () => ({ status: 404 });
+  });
+
+  suite('GitHub pull requests', () => {
+    test('reads every page of review threads and of their comments', async () => {
+      respond = ({ body }) => {
+        if (body.query?.includes('node(id:')) {
+          return { body: { data: { node: { comments: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [githubComment(3)] } } } } };
+        }
+        return body.variables?.cursor === 'page-2'
+          ? { body: githubThreads([githubThread('T2', true, [4])]) }
+          : { body: githubThreads([githubThread('T1', false, [1, 2], true)], 'page-2') };
+      };
+
+      const threads = await new GitHubProvider(githubLink(), 'secret').getThreads();
+      assert.deepStrictEqual(threads.map(thread => thread.id), ['T1', 'T2']);
+      assert.deepStrictEqual(threads[0].comments.map(c => c.id), ['1', '2', '3']);
+      assert.deepStrictEqual([threads[0].startLine, threads[0].endLine, threads[1].resolved], [1, 2, true]);
+      assert.ok(requests.every(request => request.authorization === 'Bearer secret'));
+    });
+
+    test('posts a new thread on the head commit', async () => {
+      respond = ({ method, url }) => {
+        if (method === 'GET' && url === '/repos/owner/repo/pulls/7') {
+          return { body: { head: { sha: 'head-sha' } } };
+        }
+        if (method === 'POST' && url === '/repos/owner/repo/pulls/7/comments') {
+          return { status: 201, body: { id: 11, user: { login: 'octo' }, body: 'New', ['created_at']: '2024-01-02T00:00:00Z' } };
+        }
+        return { status: 404 };
+      };
+
+      const thread = await new GitHubProvider(githubLink(), 'secret').createThread('a.md', 2, 3, 'New');
+      assert.strictEqual(thread.comments[0].id, '11');
+      const posted = requests[1].body;
+      assert.deepStrictEqual(
+        [posted['commit_id'], posted.path, posted.line, posted['start_line'], posted.side],
+        ['head-sha', 'a.md', 3, 2, 'RIGHT']
+      );
+    });
+
+    test('reports the API\'s error message', async () => {
+      respond = () => ({ status: 401, body: { message: 'Bad credentials' } });
+      await assert.rejects(new GitHubProvider(githubLink(), 'secret').getThreads(), /401: Bad credentials/);
+    });
+  });
+
+  suite('GitLab merge requests', () => {
+    test('reads diff discussions from every page, leaving out system notes and general comments', async () => {
+      respond = ({ url }) => url.endsWith('page=2')
+        ? { body: [{ id: 'D3', notes: [gitlabNote(301, { resolved: true })] }] }
+        : {
+          headers: { ['X-Next-Page']: '2' },
+          body: [
+            { id: 'D1', notes: [gitlabNote(101), gitlabNote(102, { system: true, body: 'changed this line' }), gitlabNote(103)] },
+            { id: 'D2', notes: [gitlabNote(201, { type: null, position: undefined })] }
+          ]
+        };
+
+      const threads = await new GitLabProvider(gitlabLink(), 'secret').getThreads();
+      assert.deepStrictEqual(threads.map(thread => thread.id), ['D1', 'D3']);
+      assert.deepStrictEqual(threads[0].comments.map(c => c.id), ['101', '103']);
+      assert.strictEqual(threads[1].resolved, true);
+      assert.ok(requests[0].url.startsWith('/projects/group%2Fproject/merge_requests/5/discussions'));
+    });
+  });
+
+  suite('Pull request sync', () => {
+    test('publishes new threads with their replies', async () => {
+      let published = false;
+      respond = ({ method, url }) => {
+        if (url === '/graphql') {
+          return { body: githubThreads(published ? [githubThread('T1', false, [11, 12])] : []) };
+        }
+        if (method === 'POST' && url === '/repos/owner/repo/pulls/7/comments') {
+          published = true;
+          return { status: 201, body: { id: 11, user: { login: 'octo' }, body: '', ['created_at']: '2024-01-02T00:00:00Z' } };
+        }
+        if (method === 'POST' && url === '/repos/owner/repo/pulls/7/comments/11/replies') {
+          return { status: 201, body: { id: 12, user: { login: 'octo' }, body: '', ['created_at']: '2024-01-02T00:00:00Z' } };
+        }
+        return { body: { head: { sha: 'head-sha' } } };
+      };
+      const commentData = comment({ replies: [{ id: 'r1', author: 'Bob', timestamp: '2024-01-01T01:00:00.000Z', text: 'Agreed' }] });
+
+      const summary = await syncComments(folderStore([commentData]), githubLink(), new GitHubProvider(githubLink(), 'secret'), true);
+      assert.strictEqual(summary.published, 1);
+      assert.deepStrictEqual(commentData.review, { pullRequest: githubLink().url, commentId: '11', resolved: false });
+      assert.strictEqual(commentData.replies?.[0].reviewCommentId, '12');
+      assert.strictEqual(commentData.activity?.[0].action, 'published');
+      assert.match(String(requests.find(request => request.url.endsWith('/replies'))?.body.body), /^\*\*Bob:\*\* Agreed/);
+    });
+
+    test('leaves unpublished threads alone when not publishing', async () => {
+      respond = () => ({ body: githubThreads([]) });
+      const commentData = comment();
+
+      const summary = await syncComments(folderStore([commentData]), githubLink(), new GitHubProvider(githubLink(), 'secret'), false);
+      assert.strictEqual(summary.published, 0);
+      assert.strictEqual(commentData.review, undefined);
+      assert.ok(requests.every(request => request.url === '/graphql'));
+    });
+
+    test('resolves the review thread when the thread was resolved here', async () => {
+      respond = () => ({ body: githubThreads([githubThread('T1', false, [11])]) });
+      const commentData = comment({ resolved: true, review: { pullRequest: githubLink().url, commentId: '11', resolved: false } });
+
+      const summary = await syncComments(folderStore([commentData]), githubLink(), new GitHubProvider(githubLink(), 'secret'), false);
+      const mutation = requests.find(request => request.body.query?.includes('resolveReviewThread'));
+      assert.ok(mutation?.body.query?.startsWith('mutation($id: ID!) { resolveReviewThread'));
+      assert.strictEqual(mutation?.body.variables?.id, 'T1');
+      assert.strictEqual(summary.resolutions, 1);
+      assert.strictEqual(commentData.review?.resolved, true);
+    });
+
+    test('resolves the thread here when the review thread was resolved', async () => {
+      respond = () => ({ body: githubThreads([githubThread('T1', true, [11])]) });
+      const commentData = comment({ review: { pullRequest: githubLink().url, commentId: '11', resolved: false } });
+
+      await syncComments(folderStore([commentData]), githubLink(), new GitHubProvider(githubLink(), 'secret'), false);
+      assert.strictEqual(commentData.resolved, true);
+      assert.strictEqual(commentData.review?.resolved, true);
+      assert.strictEqual(commentData.activity?.at(-1)?.action, 'resolved');
+      assert.ok(!requests.some(request => request.body.query?.startsWith('mutation')));
+    });
+
+    test('does not change a resolved state both sides changed the same way', async () => {
+      respond = () => ({ body: githubThreads([githubThread('T1', true, [11])]) });
+      const commentData = comment({ resolved: true, review: { pullRequest: githubLink().url, commentId: '11', resolved: false } });
+
+      const summary = await syncComments(folderStore([commentData]), githubLink(), new GitHubProvider(githubLink(), 'secret'), false);
+      assert.strictEqual(summary.resolutions, 0);
+      assert.strictEqual(commentData.review?.resolved, true);
+      assert.ok(!requests.some(request => request.body.query?.startsWith('mutation')));
+    });
+
+    test('reopens the discussion when the thread was reopened here', async () => {
+      respond = ({ method }) => method === 'GET'
+        ? { body: [{ id: 'D1', notes: [gitlabNote(101, { resolved: true })] }] }
+        : { body: {} };
+      const commentData = comment({ resolved: false, review: { pullRequest: gitlabLink().url, commentId: '101', resolved: true } });
+
+      await syncComments(folderStore([commentData]), gitlabLink(), new GitLabProvider(gitlabLink(), 'secret'), false);
+      assert.strictEqual(commentData.resolved, false);
+      assert.strictEqual(commentData.review?.resolved, false);
+      assert.strictEqual(requests.find(request => request.method === 'PUT')?.url, '/projects/group%2Fproject/merge_requests/5/discussions/D1?resolved=false');
+    });
+
+    test('does not pull back replies deleted here', async () => {
+      respond = ({ method, url }) => method === 'POST' && url.endsWith('/discussions/D1/notes')
+        ? { status: 201, body: gitlabNote(104, { body: 'Sent' }) }
+        : { body: [{ id: 'D1', notes: [gitlabNote(101), gitlabNote(102), gitlabNote(103)] }] };
+      const commentData = comment({
+        replies: [{ id: 'r1', author: 'Ada', timestamp: '2024-01-01T01:00:00.000Z', text: 'Sent' }],
+        review: { pullRequest: gitlabLink().url, commentId: '101', resolved: false, deletedReplies: ['102'] }
+      });
+
+      const summary = await syncComments(folderStore([commentData]), gitlabLink(), new GitLabProvider(gitlabLink(), 'secret'), false);
+      assert.deepStrictEqual(commentData.replies?.map(reply => reply.reviewCommentId), ['104', '103']);
+      assert.strictEqual(commentData.replies?.[1].text, 'Note 103');
+      assert.strictEqual(summary.replies, 2);
+    });
+
+    test('leaves threads missing from the pull request alone', async () => {
+      respond = () => ({ body: [] });
+      const commentData = comment({ resolved: true, review: { pullRequest: gitlabLink().url, commentId: '101', resolved: false } });
+
+      const summary = await syncComments(folderStore([commentData]), gitlabLink(), new GitLabProvider(gitlabLink(), 'secret'), false);
+      assert.strictEqual(summary.missing, 1);
+      assert.strictEqual(commentData.review?.resolved, false);
+    });
+  });
+
+  suite('Publishing prompt', () => {
+    type ShowWarningMessage = (message: string, ...rest: unknown[]) => Thenable<string | undefined>;
+    const window = vscode.window as unknown as { showWarningMessage: ShowWarningMessage };
+    let original: ShowWarningMessage;
+    let prompts: string[];
+    let choice: string | undefined;
+
+    setup(() => {
+      original = window.showWarningMessage;
+      prompts = [];
+      window.showWarningMessage = async (message: string) => {
+        prompts.push(message);
+        return choice;
+      };
+    });
+
+    teardown(() => {
+      window.showWarningMessage = original;
+    });
+
+    const provider = () => new GitHubProvider(githubLink(), 'secret');
+    const pulled = () => comment({
+      id: 'c2',
+      review: { pullRequest: githubLink().url, commentId: '21', resolved: false },
+      activity: [{ action: 'imported', author: 'octo', timestamp: '2024-01-02T00:00:00.000Z' }]
+    });
+
+    test('asks before the first publish, even when threads were already pulled', async () => {
+      choice = 'Sync Without Publishing';
+      assert.strictEqual(await confirmFirstPublish(folderStore([comment(), pulled()]), githubLink(), provider()), false);
+      assert.match(prompts[0], /^Publish 1 comment thread to GitHub owner\/repo#7\?/);
+    });
+
+    test('publishes when asked to, and cancels when dismissed', async () => {
+      choice = 'Publish';
+      assert.strictEqual(await confirmFirstPublish(folderStore([comment()]), githubLink(), provider()), true);
+      choice = undefined;
+      assert.strictEqual(await confirmFirstPublish(folderStore([comment()]), githubLink(), provider()), undefined);
+    });
+
+    test('does not ask again once a thread has been published', async () => {
+      const published = comment({
+        id: 'c3',
+        review: { pullRequest: githubLink().url, commentId: '31', resolved: false },
+        activity: [{ action: 'published', author: 'Ada', timestamp: '2024-01-02T00:00:00.000Z' }]
+      });
+      assert.strictEqual(await confirmFirstPublish(folderStore([comment(), published]), githubLink(), provider()), true);
+      assert.deepStrictEqual(prompts, []);
+    });
+
+    test('does not ask when there is nothing to publish', async () => {
+      assert.strictEqual(await confirmFirstPublish(folderStore([pulled()]), githubLink(), provider()), true);
+      assert.deepStrictEqual(prompts, []);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { migrateId } from '../ids';
+import { parseCommentFile, SCHEMA_VERSION } from '../schema';
+
+const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } };
+
+function thread(id: string | number, fields: Record<string, unknown> = {}) {
+  return { id, author: 'Ada', timestamp: '2024-01-01T00:00:00.000Z', text: `Thread ${id}`, filePath: 'a.md', range, ...fields };
+}
+
+suite('Comment file schema', () => {
+  test('reads a bare array of comments (version 0)', () => {
+    const { comments, problems } = parseCommentFile(JSON.stringify([thread('1')]));
+    assert.deepStrictEqual(problems, []);
+    assert.strictEqual(comments.length, 1);
+    assert.strictEqual(comments[0].id, migrateId('1'));
+    assert.deepStrictEqual(comments[0].replies, []);
+    assert.strictEqual(comments[0].resolved, false);
+  });
+
+  test('migrates an unversioned file (version 1), ids included', () => {
+    const data = { comments: [thread(1714000000000, { replies: [{ id: 'r-1', author: 'Bob', timestamp: '2024-01-02T00:00:00.000Z', text: 'Reply' }] })] };
+    const { comments, problems } = parseCommentFile(JSON.stringify(data));
+    assert.deepStrictEqual(problems, []);
+    assert.strictEqual(comments[0].id, migrateId('1714000000000'));
+    assert.strictEqual(comments[0].replies?.[0].id, migrateId('r-1'));
+  });
+
+  test('migrates ids the same way every time, so separately migrated copies still merge', () => {
+    const text = JSON.stringify({ version: 2, comments: [thread('abc', { replies: [], resolved: false })] });
+    assert.deepStrictEqual(parseCommentFile(text).comments, parseCommentFile(text).comments);
+  });
+
+  test('leaves a current file as it is', () => {
+    const id = '0f8fad5b-d9cb-469f-a165-70867728950e';
+    const data = { version: SCHEMA_VERSION, comments: [thread(id, { replies: [], resolved: true })] };
+    const { comments, problems } = parseCommentFile(JSON.stringify(data));
+    assert.deepStrictEqual(problems, []);
+    assert.deepStrictEqual(comments, data.comments);
+  });
+
+  test('drops threads it cannot use and removes fields with the wrong type', () => {
+    const data = { version: SCHEMA_VERSION, comments: [thread('x', { replies: [], resolved: false, assignee: 42 }), { text: 'No id or range' }] };
+    const { comments, problems } = parseCommentFile(JSON.stringify(data));
+    assert.strictEqual(comments.length, 1);
+    assert.strictEqual(comments[0].assignee, undefined);
+    assert.strictEqual(problems.length, 2);
+  });
+
+  test('warns about, but reads, a file from a newer version', () => {
+    const data = { version: SCHEMA_VERSION + 1, comments: [thread('y', { replies: [], resolved: false })] };
+    const { comments, problems } = parseCommentFile(JSON.stringify(data));
+    assert.strictEqual(comments.length, 1);
+    assert.strictEqual(problems.length, 1);
+  });
+
+  test('salvages complete threads from a damaged file', () => {
+    const good = JSON.stringify(thread('good', { replies: [], resolved: false }));
+    const text = `{"version": ${SCHEMA_VERSION}, "comments": [${good}, {"id": "cut-off", "text": "half`;
+    const { comments, problems } = parseCommentFile(text);
+    assert.deepStrictEqual(comments.map(c => c.id), [migrateId('good')]);
+    assert.match(problems[0], /Not valid JSON.*1 complete thread recovered/);
+  });
+
+  test('keeps the threads from both sides of a Git conflict', () => {
+    const file = (...ids: string[]) => JSON.stringify({ version: 2, comments: ids.map(id => thread(id, { replies: [], resolved: false })) }, null, 2);
+    const ours = file('shared', 'ours');
+    const theirs = file('shared', 'theirs');
+    // Conflict only around the differing thread, as Git would write it
+    const oursLines = ours.split('\n');
+    const theirsLines = theirs.split('\n');
+    const common = oursLines.findIndex((line, i) => line !== theirsLines[i]);
+    const text = [
+      ...oursLines.slice(0, common),
+      '<<<<<<< HEAD',
+      ...oursLines.slice(common),
+      '=======',
+      ...theirsLines.slice(common),
+      '>>>>>>> other-branch'
+    ].join('\n');
+
+    const { comments, problems } = parseCommentFile(text);
+    assert.deepStrictEqual(comments.map(c => c.id), ['shared', 'ours', 'theirs'].map(migrateId));
+    assert.match(problems[0], /conflict markers/);
+  });
+
+  test('takes the source file from a shard when its threads do not say', () => {
+    const shard = { version: SCHEMA_VERSION, filePath: 'docs/b.md', comments: [{ ...thread('z', { replies: [], resolved: false }), filePath: undefined }] };
+    const { comments, filePath } = parseCommentFile(JSON.stringify(shard), 'fallback.md');
+    assert.strictEqual(filePath, 'docs/b.md');
+    assert.strictEqual(comments[0].filePath, 'docs/b.md');
+  });
+});
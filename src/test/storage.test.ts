@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { getShardPath, ShardedStorage } from '../storage';
+import { CommentData } from '../types';
+
+function comment(id: string, filePath: string): CommentData {
+  return {
+    id,
+    author: 'Ada',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    text: `On ${filePath}`,
+    filePath,
+    range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+    replies: [],
+    resolved: false
+  };
+}
+
+suite('Sharded storage', () => {
+  // Paths that were made alike when they were turned into file names
+  const alike = ['a:b.md', 'a_b.md', '../x.md', '_/x.md', './y.md', '_/y.md'];
+
+  test('gives every source path a shard of its own', () => {
+    const shards = alike.map(filePath => getShardPath(filePath).join('/'));
+    assert.strictEqual(new Set(shards).size, alike.length);
+  });
+
+  test('keeps shards inside the shard directory', () => {
+    for (const filePath of ['../../outside.md', 'C:\\docs\\a.md', '/abs/b.md']) {
+      assert.ok(getShardPath(filePath).every(segment => segment !== '..' && segment !== '.' && !segment.includes(':')));
+    }
+  });
+
+  test('does not let one file overwrite another when saved', async () => {
+    const rootUri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), `comment-tracker-${Date.now()}`);
+    const storage = new ShardedStorage(rootUri);
+    try {
+      await storage.save({ comments: alike.map((filePath, i) => comment(`c${i}`, filePath)) });
+      const loaded = await storage.load();
+      assert.deepStrictEqual(
+        loaded?.store.comments.map(c => c.filePath).sort(),
+        [...alike].sort()
+      );
+    } finally {
+      await vscode.workspace.fs.delete(rootUri, { recursive: true, useTrash: false });
+    }
+  });
+});
@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import { getAllComments } from './commentStore';
+import { getRoster } from './team';
+import { CommentData, CommentPriority } from './types';
+
+/**
+ * Triage details on a thread: who should address it, how urgent it is, free
+ * form labels and a due date.
+ */
+
+export const PRIORITIES: { value: CommentPriority; label: string; color: string }[] = [
+  { value: 'high', label: 'High', color: 'charts.red' },
+  { value: 'medium', label: 'Medium', color: 'charts.orange' },
+  { value: 'low', label: 'Low', color: 'charts.blue' }
+];
+
+const SUGGESTED_LABELS = ['typo', 'methodology', 'blocking'];
+
+export function getPriorityLabel(priority: CommentPriority): string {
+  return PRIORITIES.find(p => p.value === priority)?.label ?? priority;
+}
+
+export function getPriorityColor(priority: CommentPriority | undefined): vscode.ThemeColor | undefined {
+  const color = PRIORITIES.find(p => p.value === priority)?.color;
+  return color ? new vscode.ThemeColor(color) : undefined;
+}
+
+/** Higher priority first, threads without a priority last */
+export function comparePriority(a: CommentData, b: CommentData): number {
+  const rank = (comment: CommentData) => {
+    const index = PRIORITIES.findIndex(p => p.value === comment.priority);
+    return index === -1 ? PRIORITIES.length : index;
+  };
+  return rank(a) - rank(b);
+}
+
+/** Earliest due date first, threads without one last */
+export function compareDueDate(a: CommentData, b: CommentData): number {
+  if (a.dueDate === b.dueDate) {
+    return 0;
+  }
+  if (!a.dueDate || !b.dueDate) {
+    return a.dueDate ? -1 : 1;
+  }
+  return a.dueDate.localeCompare(b.dueDate);
+}
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+export function isOverdue(comment: CommentData): boolean {
+  return !comment.resolved && !!comment.dueDate && comment.dueDate < today();
+}
+
+/**
+ * Short descriptions of a thread's details, for labels, tooltips and exports.
+ */
+export function describeDetails(comment: CommentData): string[] {
+  const parts: string[] = [];
+  if (comment.priority) {
+    parts.push(`${getPriorityLabel(comment.priority)} priority`);
+  }
+  if (comment.assignee) {
+    parts.push(`Assigned to ${comment.assignee}`);
+  }
+  if (comment.dueDate) {
+    parts.push(isOverdue(comment) ? `Overdue since ${comment.dueDate}` : `Due ${comment.dueDate}`);
+  }
+  if (comment.labels && comment.labels.length > 0) {
+    parts.push(comment.labels.map(label => `#${label}`).join(' '));
+  }
+  return parts;
+}
+
+/**
+ * Labels in use anywhere in the workspace, plus a few suggestions.
+ */
+export function getKnownLabels(): string[] {
+  const labels = new Set(SUGGESTED_LABELS);
+  for (const comment of getAllComments()) {
+    comment.labels?.forEach(label => labels.add(label));
+  }
+  return [...labels].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Ask which detail to change and then for its new value. Returns true if the
+ * thread changed.
+ */
+export async function editThreadDetails(commentData: CommentData): Promise<boolean> {
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: 'Assignee', description: commentData.assignee ?? 'none', value: 'assignee' as const },
+      { label: 'Priority', description: commentData.priority ? getPriorityLabel(commentData.priority) : 'none', value: 'priority' as const },
+      { label: 'Labels', description: commentData.labels?.join(', ') || 'none', value: 'labels' as const },
+      { label: 'Due date', description: commentData.dueDate ?? 'none', value: 'dueDate' as const }
+    ],
+    { placeHolder: 'Change which detail of this thread?' }
+  );
+
+  switch (selected?.value) {
+    case 'assignee':
+      return chooseAssignee(commentData);
+    case 'priority':
+      return choosePriority(commentData);
+    case 'labels':
+      return chooseLabels(commentData);
+    case 'dueDate':
+      return chooseDueDate(commentData);
+    default:
+      return false;
+  }
+}
+
+function setDetail<K extends 'assignee' | 'priority' | 'labels' | 'dueDate'>(
+  commentData: CommentData,
+  key: K,
+  value: CommentData[K] | undefined
+): boolean {
+  const isEmpty = value === undefined || (Array.isArray(value) && value.length === 0);
+  if (isEmpty) {
+    if (commentData[key] === undefined) {
+      return false;
+    }
+    delete commentData[key];
+    return true;
+  }
+  if (JSON.stringify(commentData[key]) === JSON.stringify(value)) {
+    return false;
+  }
+  commentData[key] = value;
+  return true;
+}
+
+export async function chooseAssignee(commentData: CommentData): Promise<boolean> {
+  const people = new Set([
+    ...getRoster().map(member => member.name),
+    ...getAllComments().flatMap(comment => [comment.author, ...(comment.assignee ? [comment.assignee] : [])])
+  ]);
+
+  const selected = await vscode.window.showQuickPick(
+    [
+      ...[...people].sort((a, b) => a.localeCompare(b)).map(name => ({
+        label: name,
+        description: name === commentData.assignee ? 'current' : undefined,
+        value: name as string | undefined
+      })),
+      { label: 'Someone else...', value: '' },
+      { label: 'Unassigned', value: undefined }
+    ],
+    { placeHolder: 'Assign this thread to' }
+  );
+  if (!selected) {
+    return false;
+  }
+
+  let assignee = selected.value;
+  if (assignee === '') {
+    assignee = (await vscode.window.showInputBox({ prompt: 'Assign this thread to', placeHolder: 'Name' }))?.trim();
+    if (!assignee) {
+      return false;
+    }
+  }
+  return setDetail(commentData, 'assignee', assignee);
+}
+
+export async function choosePriority(commentData: CommentData): Promise<boolean> {
+  const selected = await vscode.window.showQuickPick(
+    [
+      ...PRIORITIES.map(p => ({
+        label: p.label,
+        description: p.value === commentData.priority ? 'current' : undefined,
+        value: p.value as CommentPriority | undefined
+      })),
+      { label: 'None', description: commentData.priority ? undefined : 'current', value: undefined }
+    ],
+    { placeHolder: 'Priority of this thread' }
+  );
+  return selected ? setDetail(commentData, 'priority', selected.value) : false;
+}
+
+/**
+ * Multi-select of known labels. Typing a label that does not exist yet offers
+ * it as a new one.
+ */
+export async function chooseLabels(commentData: CommentData): Promise<boolean> {
+  const current = new Set(commentData.labels ?? []);
+  const known = [...new Set([...getKnownLabels(), ...current])].sort((a, b) => a.localeCompare(b));
+
+  const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem>();
+  quickPick.canSelectMany = true;
+  quickPick.placeholder = 'Labels for this thread (type to add a new one)';
+  const knownItems = known.map(label => ({ label }));
+  quickPick.items = knownItems;
+  quickPick.selectedItems = knownItems.filter(item => current.has(item.label));
+
+  quickPick.onDidChangeValue(value => {
+    const label = value.trim();
+    const selectedLabels = new Set(quickPick.selectedItems.map(item => item.label));
+    const items = label && !known.includes(label)
+      ? [{ label, description: 'new label' }, ...knownItems]
+      : knownItems;
+    quickPick.items = items;
+    quickPick.selectedItems = items.filter(item => selectedLabels.has(item.label));
+  });
+
+  const labels = await new Promise<string[] | undefined>(resolve => {
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems.map(item => item.label));
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => resolve(undefined));
+    quickPick.show();
+  });
+  quickPick.dispose();
+
+  return labels ? setDetail(commentData, 'labels', labels) : false;
+}
+
+export async function chooseDueDate(commentData: CommentData): Promise<boolean> {
+  const dueDate = await vscode.window.showInputBox({
+    prompt: 'Due date for this thread (YYYY-MM-DD)',
+    value: commentData.dueDate ?? '',
+    placeHolder: 'Leave empty for no due date',
+    validateInput: value =>
+      value.trim() === '' || (/^\d{4}-\d{2}-\d{2}$/.test(value.trim()) && !isNaN(new Date(value.trim()).getTime()))
+        ? undefined
+        : 'Use the form YYYY-MM-DD'
+  });
+  if (dueDate === undefined) {
+    return false;
+  }
+  return setDetail(commentData, 'dueDate', dueDate.trim() || undefined);
+}
@@ -0,0 +1,164 @@
+import { CommentAnchor } from './anchoring';
+
+export interface CommentRevision {
+  text: string;
+  /** When this version of the text was written */
+  timestamp: string;
+}
+
+/**
+ * Who wrote a comment or reply, as worked out from Git or a signed-in
+ * account. `author` keeps the name on its own, for older versions and the
+ * formats that only carry a name.
+ */
+export interface AuthorIdentity {
+  name: string;
+  email?: string;
+  /** Address of a profile picture */
+  avatarUrl?: string;
+}
+
+/** Who gave each emoji reaction, by name */
+export type CommentReactions = Record<string, string[]>;
+
+export interface CommentReplyData {
+  id: string;
+  author: string;
+  identity?: AuthorIdentity;
+  timestamp: string;
+  text: string;
+  /** Handles of team members mentioned in the text */
+  mentions?: string[];
+  editedAt?: string;
+  revisions?: CommentRevision[];
+  reactions?: CommentReactions;
+  /** Id of the pull request review comment this reply is synced with */
+  reviewCommentId?: string;
+}
+
+export type ActivityAction =
+  | 'created'
+  | 'imported'
+  | 'published'
+  | 'replied'
+  | 'edited'
+  | 'replyDeleted'
+  | 'resolved'
+  | 'reopened'
+  | 'updated'
+  | 'reanchored'
+  | 'orphaned'
+  | 'deleted'
+  | 'restored'
+  | 'applied'
+  | 'rejected';
+
+/** One entry in a thread's append-only activity log */
+export interface CommentActivity {
+  action: ActivityAction;
+  author: string;
+  timestamp: string;
+  detail?: string;
+}
+
+export type CommentPriority = 'high' | 'medium' | 'low';
+
+/** The pull request review thread a comment thread is synced with */
+export interface ReviewThreadLink {
+  /** Web address of the pull request or merge request */
+  pullRequest: string;
+  /** Id of the review comment the thread starts with */
+  commentId: string;
+  /** Whether the thread was resolved at the last sync, to tell which side has changed it since */
+  resolved: boolean;
+  /** Ids of the review comments of replies deleted here, so that syncing does not pull them back */
+  deletedReplies?: string[];
+}
+
+/** Replacement text a thread proposes for the text it is on */
+export interface CommentSuggestion {
+  /** The text to put in place of the commented text */
+  text: string;
+  /** The commented text when the suggestion was made, to tell whether it still applies */
+  original: string;
+  /** Set once the suggestion has been applied or rejected */
+  status?: 'applied' | 'rejected';
+  /** Who applied or rejected it, and when */
+  decidedBy?: string;
+  decidedAt?: string;
+}
+
+/** The Git commit, and branch unless HEAD was detached, a comment was written against */
+export interface GitRevision {
+  commit: string;
+  branch?: string;
+  /**
+   * The commented lines as they were when the comment was written, kept when
+   * the file differed from the commit, such as for a comment on uncommitted text
+   */
+  lines?: string;
+}
+
+export interface CommentData {
+  id: string;
+  author: string;
+  identity?: AuthorIdentity;
+  timestamp: string;
+  text: string;
+  /** Handles of team members mentioned in the text */
+  mentions?: string[];
+  editedAt?: string;
+  revisions?: CommentRevision[];
+  reactions?: CommentReactions;
+  filePath: string;
+  range: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  };
+  replies?: CommentReplyData[];
+  resolved?: boolean;
+  /** Name of the person expected to address the thread */
+  assignee?: string;
+  priority?: CommentPriority;
+  labels?: string[];
+  /** Date the thread should be addressed by, as YYYY-MM-DD */
+  dueDate?: string;
+  anchor?: CommentAnchor;
+  suggestion?: CommentSuggestion;
+  git?: GitRevision;
+  /** Branch the thread belongs to; threads without one are global and shown on every branch */
+  scope?: string;
+  orphaned?: boolean;
+  /** Set when the commented file was deleted; archived comments have no thread in the editor */
+  archived?: boolean;
+  /** Set when the thread was deleted; deleted threads are kept in the Trash until purged */
+  deleted?: boolean;
+  activity?: CommentActivity[];
+  review?: ReviewThreadLink;
+  /** Read from CriticMarkup in the document itself; never written to the comments file */
+  inline?: boolean;
+}
+
+export interface CommentStore {
+  comments: CommentData[];
+}
+
+export interface ImportedReply {
+  author: string;
+  timestamp?: string;
+  text: string;
+}
+
+/**
+ * A comment read from another review format, before it has been matched to a
+ * range in a workspace file.
+ */
+export interface ImportedComment {
+  author: string;
+  timestamp?: string;
+  text: string;
+  /** The commented text with surrounding context, as found in the source */
+  anchor: CommentAnchor;
+  resolved?: boolean;
+  replies: ImportedReply[];
+}